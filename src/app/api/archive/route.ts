@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { withWriteLocks } from "../../lib/fileStore";
+import { scheduleCommit } from "../../lib/gitStore";
+import { forgetJournalHeads } from "../../lib/journal";
+import { docPath } from "../../lib/memoStore";
+import { TreeValidationError } from "../../lib/treeValidation";
+import { errorResponse } from "../../lib/treeRoutes";
+import { createArchive, importArchive, importedDocs, validateArchive } from "../../lib/archive";
+
+/** GET: download every document, journal and backup plus settings as one archive file */
+export async function GET() {
+  try {
+    const archive = createArchive();
+    const date = archive.manifest.createdAt.slice(0, 10);
+    return new NextResponse(JSON.stringify(archive), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="locus-archive-${date}.json"`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST: restore an archive. ?mode=replace (default) moves the current data
+ * to trash/ first, ?mode=merge only adds missing files; ?dryRun=1 reports
+ * what would be written without writing.
+ */
+export async function POST(request: Request) {
+  try {
+    const params = new URL(request.url).searchParams;
+    const mode = params.get("mode") ?? "replace";
+    if (mode !== "replace" && mode !== "merge") {
+      return NextResponse.json({ error: "mode must be replace or merge" }, { status: 400 });
+    }
+    const dryRun = params.get("dryRun") === "1";
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new TreeValidationError("archive", "must be valid JSON");
+    }
+    const archive = validateArchive(body);
+
+    // Hold every affected document's lock so no save lands halfway through
+    const locks = importedDocs(archive, mode).map(docPath);
+    const result = await withWriteLocks(locks, () => {
+      const result = importArchive(archive, mode, dryRun);
+      if (!dryRun) {
+        forgetJournalHeads();
+        scheduleCommit();
+      }
+      return result;
+    });
+    return NextResponse.json({ ...result, dryRun });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
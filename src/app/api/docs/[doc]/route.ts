@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { withWriteLock } from "../../../lib/fileStore";
+import { scheduleCommit } from "../../../lib/gitStore";
+import {
+  DEFAULT_DOC,
+  deleteDoc,
+  docExists,
+  docPath,
+  isValidDocName,
+  listDocs,
+  renameDoc,
+} from "../../../lib/memoStore";
+import { errorResponse, jsonBody, resolveDoc } from "../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** PATCH: rename a document and its backups */
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const doc = await resolveDoc(params);
+    if (typeof doc !== "string") return doc;
+    if (doc === DEFAULT_DOC) {
+      return NextResponse.json({ error: "The default document can't be renamed" }, { status: 400 });
+    }
+
+    const { name } = await jsonBody(request);
+    if (typeof name !== "string" || !isValidDocName(name)) {
+      return NextResponse.json(
+        { error: "Document names may only contain letters, digits and -" },
+        { status: 400 }
+      );
+    }
+
+    if (name === doc) {
+      return NextResponse.json({ docs: listDocs() });
+    }
+
+    // Take both locks in a fixed order so crossing renames can't deadlock
+    const [first, second] = [doc, name].sort();
+    return await withWriteLock(docPath(first), () =>
+      withWriteLock(docPath(second), () => {
+        if (docExists(name)) {
+          return NextResponse.json({ error: "Document already exists" }, { status: 409 });
+        }
+        renameDoc(doc, name);
+        scheduleCommit();
+        return NextResponse.json({ docs: listDocs() });
+      })
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** DELETE: move a document and its backups to the trash folder */
+export async function DELETE(_request: Request, { params }: Context) {
+  try {
+    const doc = await resolveDoc(params);
+    if (typeof doc !== "string") return doc;
+    if (doc === DEFAULT_DOC) {
+      return NextResponse.json({ error: "The default document can't be deleted" }, { status: 400 });
+    }
+
+    return await withWriteLock(docPath(doc), () => {
+      deleteDoc(doc);
+      scheduleCommit();
+      return NextResponse.json({ docs: listDocs() });
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,10 @@
+import { diffVersions, resolveDoc } from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** GET ?from=&to=: structural diff between two versions ("current" or a backup name) */
+export async function GET(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return diffVersions(doc, request);
+}
@@ -0,0 +1,10 @@
+import { docEvents, resolveDoc } from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** GET: stream a "change" event whenever the stored file changes */
+export async function GET(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return docEvents(doc, request);
+}
@@ -0,0 +1,10 @@
+import { generateDocFiles, resolveDoc } from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** POST: write the !{file:path} nodes into the output directory (?node=, ?dryRun=1) */
+export async function POST(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return generateDocFiles(doc, request);
+}
@@ -0,0 +1,10 @@
+import { getHistory, resolveDoc } from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** GET: git commits of the document, newest first, or with ?node= one node's earlier texts */
+export async function GET(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return getHistory(doc, request);
+}
@@ -0,0 +1,17 @@
+import { getIntegrity, repairDoc, resolveDoc } from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** GET: anomalies in the stored file, with line numbers */
+export async function GET(_request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return getIntegrity(doc);
+}
+
+/** POST: repair the stored file; the original is kept as the newest backup */
+export async function POST(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return repairDoc(doc, request);
+}
@@ -0,0 +1,17 @@
+import { compactJournalNow, getJournal, resolveDoc } from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** GET: the journal's time span, or with ?at= the tree as it was at that time */
+export async function GET(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return getJournal(doc, request);
+}
+
+/** POST: compact the journal now */
+export async function POST(_request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return compactJournalNow(doc);
+}
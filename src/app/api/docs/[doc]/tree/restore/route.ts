@@ -0,0 +1,23 @@
+import {
+  getBackupTree,
+  listBackups,
+  resolveDoc,
+  restoreBackup,
+} from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** GET: list the document's backups, or with ?backup= return that backup's tree */
+export async function GET(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  const backup = new URL(request.url).searchParams.get("backup");
+  return backup ? getBackupTree(doc, backup) : listBackups(doc);
+}
+
+/** POST: restore the document from one of its backups */
+export async function POST(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return restoreBackup(doc, request);
+}
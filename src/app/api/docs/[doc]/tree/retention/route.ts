@@ -0,0 +1,17 @@
+import { getRetention, pruneBackupsNow, resolveDoc } from "../../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+/** GET: the retention policy and what pruning would delete, without deleting anything */
+export async function GET(_request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return getRetention(doc);
+}
+
+/** POST: prune backups by the retention policy now */
+export async function POST(_request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return pruneBackupsNow(doc);
+}
@@ -0,0 +1,22 @@
+import { getTree, patchTree, putTree, resolveDoc } from "../../../../lib/treeRoutes";
+
+type Context = { params: Promise<{ doc: string }> };
+
+export async function GET(_request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return getTree(doc);
+}
+
+export async function PUT(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return putTree(doc, request);
+}
+
+/** PATCH: apply incremental ops to the stored tree */
+export async function PATCH(request: Request, { params }: Context) {
+  const doc = await resolveDoc(params);
+  if (typeof doc !== "string") return doc;
+  return patchTree(doc, request);
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { withWriteLock } from "../../lib/fileStore";
+import { scheduleCommit } from "../../lib/gitStore";
+import { docExists, docPath, isValidDocName, listDocs, readDoc } from "../../lib/memoStore";
+import { errorResponse, jsonBody } from "../../lib/treeRoutes";
+
+/** GET: list documents */
+export async function GET() {
+  try {
+    return NextResponse.json({ docs: listDocs() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** POST: create a new empty document */
+export async function POST(request: Request) {
+  try {
+    const { name } = await jsonBody(request);
+    if (typeof name !== "string" || !isValidDocName(name)) {
+      return NextResponse.json(
+        { error: "Document names may only contain letters, digits and -" },
+        { status: 400 }
+      );
+    }
+
+    return await withWriteLock(docPath(name), () => {
+      if (docExists(name)) {
+        return NextResponse.json({ error: "Document already exists" }, { status: 409 });
+      }
+      readDoc(name);
+      scheduleCommit();
+      return NextResponse.json({ docs: listDocs() }, { status: 201 });
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
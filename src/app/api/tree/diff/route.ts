@@ -0,0 +1,7 @@
+import { DEFAULT_DOC } from "../../../lib/memoStore";
+import { diffVersions } from "../../../lib/treeRoutes";
+
+/** GET ?from=&to=: structural diff between two versions ("current" or a backup name) */
+export async function GET(request: Request) {
+  return diffVersions(DEFAULT_DOC, request);
+}
@@ -0,0 +1,7 @@
+import { DEFAULT_DOC } from "../../../lib/memoStore";
+import { docEvents } from "../../../lib/treeRoutes";
+
+/** GET: stream a "change" event whenever the stored file changes */
+export async function GET(request: Request) {
+  return docEvents(DEFAULT_DOC, request);
+}
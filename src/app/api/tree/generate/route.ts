@@ -0,0 +1,7 @@
+import { DEFAULT_DOC } from "../../../lib/memoStore";
+import { generateDocFiles } from "../../../lib/treeRoutes";
+
+/** POST: write the !{file:path} nodes into the output directory (?node=, ?dryRun=1) */
+export async function POST(request: Request) {
+  return generateDocFiles(DEFAULT_DOC, request);
+}
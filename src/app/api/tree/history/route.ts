@@ -0,0 +1,7 @@
+import { DEFAULT_DOC } from "../../../lib/memoStore";
+import { getHistory } from "../../../lib/treeRoutes";
+
+/** GET: git commits of the document, newest first, or with ?node= one node's earlier texts */
+export async function GET(request: Request) {
+  return getHistory(DEFAULT_DOC, request);
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_DOC } from "../../../lib/memoStore";
+import { getIntegrity, repairDoc } from "../../../lib/treeRoutes";
+
+/** GET: anomalies in the stored file, with line numbers */
+export async function GET() {
+  return getIntegrity(DEFAULT_DOC);
+}
+
+/** POST: repair the stored file; the original is kept as the newest backup */
+export async function POST(request: Request) {
+  return repairDoc(DEFAULT_DOC, request);
+}
@@ -0,0 +1,12 @@
+import { DEFAULT_DOC } from "../../../lib/memoStore";
+import { compactJournalNow, getJournal } from "../../../lib/treeRoutes";
+
+/** GET: the journal's time span, or with ?at= the tree as it was at that time */
+export async function GET(request: Request) {
+  return getJournal(DEFAULT_DOC, request);
+}
+
+/** POST: compact the journal now */
+export async function POST() {
+  return compactJournalNow(DEFAULT_DOC);
+}
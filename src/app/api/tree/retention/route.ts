@@ -0,0 +1,12 @@
+import { DEFAULT_DOC } from "../../../lib/memoStore";
+import { getRetention, pruneBackupsNow } from "../../../lib/treeRoutes";
+
+/** GET: the retention policy and what pruning would delete, without deleting anything */
+export async function GET() {
+  return getRetention(DEFAULT_DOC);
+}
+
+/** POST: prune backups by the retention policy now */
+export async function POST() {
+  return pruneBackupsNow(DEFAULT_DOC);
+}
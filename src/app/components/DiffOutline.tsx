@@ -0,0 +1,41 @@
+"use client";
+
+import { DiffNode, NodeChange } from "../lib/treeDiff";
+
+const CHANGE_CLASS: Record<NodeChange, string> = {
+  added: "text-green-600 dark:text-green-400",
+  removed: "text-red-500 line-through",
+  edited: "text-amber-600 dark:text-amber-400",
+  reparented: "text-blue-500",
+  moved: "text-blue-500",
+};
+
+/** Outline of a tree diff, colored by change */
+export default function DiffOutline({ nodes }: { nodes: DiffNode[] }) {
+  return (
+    <ul>
+      {nodes.map((node) => (
+        <li key={node.id}>
+          <div
+            className={`whitespace-pre-wrap ${
+              node.changes.length > 0 ? CHANGE_CLASS[node.changes[0]] : "text-zinc-400"
+            }`}
+          >
+            {node.oldText !== undefined && (
+              <span className="mr-1 text-zinc-400 line-through">{node.oldText}</span>
+            )}
+            {node.text}
+            {node.changes.length > 0 && (
+              <span className="ml-1 text-[10px] text-zinc-400">({node.changes.join(", ")})</span>
+            )}
+          </div>
+          {node.children.length > 0 && (
+            <div className="pl-4">
+              <DiffOutline nodes={node.children} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { NodeVersion } from "../lib/nodeHistory";
+
+interface NodeHistoryProps {
+  /** null while loading */
+  versions: NodeVersion[] | null;
+  currentText: string;
+  author: string;
+  onAuthorChange: (author: string) => void;
+  onRestore: (text: string) => void;
+  onClose: () => void;
+}
+
+function sourceLabel(v: NodeVersion): string {
+  if (v.source === "git" && v.version) return v.version.slice("git:".length, "git:".length + 7);
+  if (v.source === "backup" && v.version) return v.version;
+  return v.source;
+}
+
+/** Popover listing the earlier texts of one node, each restorable on its own */
+export default function NodeHistory({
+  versions,
+  currentText,
+  author,
+  onAuthorChange,
+  onRestore,
+  onClose,
+}: NodeHistoryProps) {
+  return (
+    <div
+      className="absolute left-6 top-full z-20 mt-1 w-96 max-w-[80vw] cursor-default rounded border border-zinc-300 bg-white p-2 text-xs shadow-lg dark:border-zinc-600 dark:bg-zinc-800"
+      onClick={(e) => e.stopPropagation()}
+      onDoubleClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div className="mb-1 flex items-center justify-between">
+        <span className="font-semibold">Text history</span>
+        <button className="text-zinc-400 hover:text-zinc-600" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {versions === null ? (
+        <p className="text-zinc-400">Loading...</p>
+      ) : versions.length === 0 ? (
+        <p className="text-zinc-400">No earlier versions recorded</p>
+      ) : (
+        <ul className="max-h-64 space-y-1 overflow-y-auto">
+          {versions.map((v) => (
+            <li key={`${v.at}-${v.source}`} className="border-b border-zinc-100 pb-1 dark:border-zinc-700">
+              <div className="flex items-center gap-2 text-zinc-400">
+                <span>{new Date(v.at).toLocaleString("en-US")}</span>
+                <span className="rounded bg-zinc-100 px-1 dark:bg-zinc-700">{sourceLabel(v)}</span>
+                {v.author && <span className="text-zinc-500 dark:text-zinc-300">{v.author}</span>}
+                {v.text === currentText ? (
+                  <span className="ml-auto">current</span>
+                ) : (
+                  <button
+                    className="ml-auto text-blue-500 hover:underline"
+                    onClick={() => onRestore(v.text)}
+                  >
+                    Restore
+                  </button>
+                )}
+              </div>
+              <div className="whitespace-pre-wrap">
+                {v.text || <span className="text-zinc-400">(empty)</span>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="mt-2 flex items-center gap-1 text-zinc-400">
+        Your name
+        <input
+          value={author}
+          onChange={(e) => onAuthorChange(e.target.value)}
+          placeholder="recorded with your edits"
+          className="flex-1 rounded border border-zinc-300 bg-transparent px-1 text-zinc-700 dark:border-zinc-600 dark:text-zinc-200"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { TreeNodeData } from "./TreeNode";
+
+interface TreeBrowserProps {
+  nodes: TreeNodeData[];
+  pickedId: number | null;
+  onPick: (id: number) => void;
+}
+
+/** Read-only outline of a tree (e.g. a backup) where one node can be picked */
+export default function TreeBrowser({ nodes, pickedId, onPick }: TreeBrowserProps) {
+  // Nodes the user opened or closed here, overriding their saved state
+  const [toggled, setToggled] = useState<Set<number>>(new Set());
+
+  const toggle = (id: number) => {
+    const next = new Set(toggled);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setToggled(next);
+  };
+
+  function renderNodes(list: TreeNodeData[]) {
+    return (
+      <ul>
+        {list.map((node) => {
+          const closed = node.closed !== toggled.has(node.id);
+          return (
+            <li key={node.id}>
+              <div className="flex items-start gap-1">
+                <button
+                  className="w-3 shrink-0 text-zinc-400"
+                  onClick={() => toggle(node.id)}
+                  disabled={node.children.length === 0}
+                >
+                  {node.children.length > 0 ? (closed ? "▶" : "▼") : ""}
+                </button>
+                <span
+                  className={`cursor-pointer whitespace-pre-wrap rounded px-1 ${
+                    node.id === pickedId
+                      ? "bg-blue-100 dark:bg-blue-900"
+                      : "hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                  }`}
+                  onClick={() => onPick(node.id)}
+                >
+                  {node.text || "\u00a0"}
+                </span>
+              </div>
+              {!closed && node.children.length > 0 && (
+                <div className="pl-4">{renderNodes(node.children)}</div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    );
+  }
+
+  return renderNodes(nodes);
+}
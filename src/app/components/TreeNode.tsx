@@ -1,6 +1,7 @@
 "use client";
 
-import { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import { useRef, useEffect, useState, useCallback, useMemo, ReactNode } from "react";
+import { markerLabel, resolveRef, splitRefs } from "../lib/entities";
 
 export interface TreeNodeData {
   id: number;
@@ -9,6 +10,10 @@ export interface TreeNodeData {
   closed: boolean;
   children: TreeNodeData[];
   ol?: boolean;
+  /** Name other nodes refer to with !{ref:Name} (see entities.ts) */
+  entity?: string;
+  /** memo.cgi directive lines this version doesn't know, kept verbatim */
+  directives?: string[];
 }
 
 type DropPosition = "before" | "after" | "child" | null;
@@ -32,6 +37,16 @@ interface TreeNodeProps {
   onDragStart: (id: number) => void;
   onDrop: (dragId: number, targetId: number, position: "before" | "after" | "child", indent?: number) => void;
   onDragEnd: () => void;
+  /** Node whose history popover is open, and the popover itself */
+  historyId?: number | null;
+  historyPopover?: ReactNode;
+  onShowHistory?: (id: number) => void;
+  /** Entity name → node, for resolving !{ref:Name}; refs render as plain text without it */
+  entityNodes?: Map<string, TreeNodeData>;
+  /** Nodes whose entity name is already declared by an earlier node */
+  duplicateEntityIds?: Set<number>;
+  /** Go to the node a reference resolves to */
+  onFollowRef?: (id: number) => void;
 }
 
 /** Highlight search query matches in text */
@@ -74,6 +89,61 @@ function HighlightedText({ text, query }: { text: string; query: string }) {
   );
 }
 
+/**
+ * Node text with !{ref:Name} markers shown as links and !{child:Name:n}
+ * placeholders replaced by a preview of that child; unresolvable ones are flagged
+ */
+function NodeText({
+  text,
+  query,
+  entityNodes,
+  onFollowRef,
+}: {
+  text: string;
+  query: string;
+  entityNodes?: Map<string, TreeNodeData>;
+  onFollowRef?: (id: number) => void;
+}) {
+  if (!entityNodes) return <HighlightedText text={text} query={query} />;
+  return (
+    <>
+      {splitRefs(text).map((part, i) => {
+        if (part.type === "text") return <HighlightedText key={i} text={part.text} query={query} />;
+        const resolved = resolveRef(part, entityNodes);
+        const target = "node" in resolved ? resolved.node : null;
+        const label = markerLabel(part);
+        const title =
+          "error" in resolved
+            ? `Broken reference: ${resolved.error}`
+            : part.type === "ref"
+              ? `Go to ${label}`
+              : `Child ${part.index} of ${part.name}; click to go there`;
+        return (
+          <span
+            key={i}
+            className={
+              !target
+                ? "rounded-sm bg-red-50 text-red-600 underline decoration-wavy dark:bg-red-900/30 dark:text-red-400"
+                : part.type === "child"
+                  ? "rounded-sm bg-blue-50 px-0.5 text-blue-700 italic hover:text-blue-900 dark:bg-blue-900/30 dark:text-blue-300"
+                  : "text-blue-600 underline hover:text-blue-800 dark:text-blue-400"
+            }
+            title={title}
+            onClick={(e) => {
+              if (!target || !onFollowRef) return;
+              e.stopPropagation();
+              onFollowRef(target.id);
+            }}
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            {target && part.type === "child" ? target.text.split("\n")[0] : label}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
 export default function TreeNode({
   node,
   selectedId,
@@ -93,11 +163,18 @@ export default function TreeNode({
   onDragStart,
   onDrop,
   onDragEnd,
+  historyId,
+  historyPopover,
+  onShowHistory,
+  entityNodes,
+  duplicateEntityIds,
+  onFollowRef,
 }: TreeNodeProps) {
   const isSelected = selectedId === node.id;
   const isMultiSelected = !isSelected && (selectedIds?.has(node.id) ?? false);
   const isEditing = editingId === node.id;
   const isDragging = dragId === node.id;
+  const showsHistory = historyId === node.id;
   const hasChildren = node.children.length > 0;
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const rowRef = useRef<HTMLDivElement>(null);
@@ -189,7 +266,7 @@ export default function TreeNode({
         onClick={() => onSelect(node.id)}
         onDoubleClick={() => onStartEdit(node.id)}
         data-node-id={node.id}
-        draggable={!isEditing}
+        draggable={!isEditing && !showsHistory}
         onDragStart={(e) => {
           e.dataTransfer.effectAllowed = "move";
           onDragStart(node.id);
@@ -272,13 +349,55 @@ export default function TreeNode({
         ) : (
           <span className="whitespace-pre-wrap">
             {node.text ? (
-              <HighlightedText text={node.text} query={searchQuery || ""} />
+              <NodeText
+                text={node.text}
+                query={searchQuery || ""}
+                entityNodes={entityNodes}
+                onFollowRef={onFollowRef}
+              />
             ) : (
               <span className="text-zinc-400">(empty)</span>
             )}
           </span>
         )}
 
+        {node.entity !== undefined && !isEditing && (
+          <span
+            className={`ml-1 shrink-0 self-center rounded px-1 text-[10px] leading-4 ${
+              duplicateEntityIds?.has(node.id)
+                ? "bg-red-100 text-red-600 dark:bg-red-900/40 dark:text-red-400"
+                : "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300"
+            }`}
+            title={
+              duplicateEntityIds?.has(node.id)
+                ? `Entity "${node.entity}" is already declared above; references go there`
+                : `Entity: refer to this node with !{ref:${node.entity}}`
+            }
+          >
+            {node.entity}
+          </span>
+        )}
+
+        {isSelected && !isEditing && onShowHistory && (
+          <button
+            className={`ml-1 shrink-0 self-center hover:text-zinc-600 ${
+              showsHistory ? "text-zinc-600 dark:text-zinc-300" : "text-zinc-400"
+            }`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onShowHistory(node.id);
+            }}
+            onDoubleClick={(e) => e.stopPropagation()}
+            title="Text history (H)"
+          >
+            <svg width="12" height="12" viewBox="0 0 12 12">
+              <circle cx="6" cy="6" r="4.5" fill="none" stroke="currentColor" strokeWidth="1.2" />
+              <path d="M6 3.5V6l1.8 1.2" fill="none" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" />
+            </svg>
+          </button>
+        )}
+
+        {showsHistory && historyPopover}
       </div>
 
       {!node.closed &&
@@ -303,6 +422,12 @@ export default function TreeNode({
             onDragStart={onDragStart}
             onDrop={onDrop}
             onDragEnd={onDragEnd}
+            historyId={historyId}
+            historyPopover={historyPopover}
+            onShowHistory={onShowHistory}
+            entityNodes={entityNodes}
+            duplicateEntityIds={duplicateEntityIds}
+            onFollowRef={onFollowRef}
           />
         ))}
     </div>
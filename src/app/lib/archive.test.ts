@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { archivedDoc, createArchive, importArchive, LocusArchive, validateArchive } from "./archive";
+import { dataDir, readDoc, writeDoc } from "./memoStore";
+import { POST as importArchiveRoute } from "../api/archive/route";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-archive-"));
+  process.env.LOCUS_DATA_DIR = path.join(dir, "data");
+  // locus.config.json is read from the working directory
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.LOCUS_DATA_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Archive of a data directory with memo, one backup and a settings file */
+function sampleArchive(): LocusArchive {
+  writeDoc("memo", "root\n child\n");
+  const backup = path.join(dataDir(), "memo_01.cgi");
+  fs.writeFileSync(backup, "root\n");
+  const time = new Date("2020-01-01T00:00:00Z");
+  fs.utimesSync(backup, time, time);
+  fs.writeFileSync(path.join(dataDir(), "notes.txt"), "not data");
+  fs.writeFileSync(
+    path.join(dir, "locus.config.json"),
+    '{"dataDir":"/old","outputDir":"/old/out","git":{"enabled":true},"retention":{"daily":3}}'
+  );
+  return createArchive();
+}
+
+describe("archivedDoc（アーカイブ対象のファイル名）", () => {
+  it("ドキュメント・ジャーナル・バックアップだけを対象にする", () => {
+    expect(archivedDoc("memo.cgi")).toBe("memo");
+    expect(archivedDoc("work.journal.jsonl")).toBe("work");
+    expect(archivedDoc("memo_weekly_2026-01-05.cgi")).toBe("memo");
+    for (const name of ["trash", ".memo.cgi.1.tmp", "../memo.cgi", "memo_x.cgi", "a/b.cgi"]) {
+      expect(archivedDoc(name)).toBeNull();
+    }
+  });
+});
+
+describe("createArchive / validateArchive", () => {
+  it("データファイルと設定をチェックサム付きで書き出す", () => {
+    const archive = sampleArchive();
+    expect(archive.manifest.files.map((f) => f.name)).toEqual([
+      "memo.cgi",
+      "memo_01.cgi",
+      "locus.config.json",
+    ]);
+    expect(archive.manifest.files[1].mtime).toBe("2020-01-01T00:00:00.000Z");
+    expect(validateArchive(JSON.parse(JSON.stringify(archive)))).toEqual(archive);
+  });
+
+  it("内容が改変されたアーカイブは拒否する", () => {
+    const archive = sampleArchive();
+    archive.files["memo.cgi"] = "root\n tampered\n";
+    expect(() => validateArchive(archive)).toThrow("files.memo.cgi");
+  });
+
+  it("データファイル以外の名前は拒否する", () => {
+    const archive = sampleArchive();
+    archive.manifest.files[0].name = "../memo.cgi";
+    expect(() => validateArchive(archive)).toThrow("manifest.files[0].name");
+  });
+
+  it("保存を妨げる保持設定を含むアーカイブは拒否する", () => {
+    sampleArchive();
+    fs.writeFileSync(path.join(dir, "locus.config.json"), '{"retention":{"daily":-1}}');
+    expect(() => validateArchive(createArchive())).toThrow("files.locus.config.json: retention.daily");
+  });
+
+  it("新しいバージョンのアーカイブは拒否する", () => {
+    const archive = sampleArchive();
+    archive.manifest.version = 99;
+    expect(() => validateArchive(archive)).toThrow("manifest.version");
+  });
+
+  it("1 未満や整数でないバージョンは拒否する", () => {
+    for (const version of [0, -1, 0.5, 1.5, "1", null]) {
+      const archive = sampleArchive();
+      (archive.manifest as { version: unknown }).version = version;
+      expect(() => validateArchive(archive)).toThrow("manifest.version");
+    }
+  });
+});
+
+describe("importArchive（アーカイブの復元）", () => {
+  it("replace は現在のデータを trash に移してから復元し、dataDir は残す", () => {
+    const archive = sampleArchive();
+    writeDoc("memo", "root\n changed\n");
+    writeDoc("work", "root\n");
+    fs.writeFileSync(path.join(dir, "locus.config.json"), '{"dataDir":"/local"}');
+
+    const result = importArchive(archive, "replace");
+    expect(result.written).toEqual(["memo.cgi", "memo_01.cgi", "locus.config.json"]);
+    expect(readDoc("memo")).toBe("root\n child\n");
+    expect(fs.statSync(path.join(dataDir(), "memo_01.cgi")).mtime.toISOString()).toBe(
+      "2020-01-01T00:00:00.000Z"
+    );
+    const trashed = path.join(dataDir(), "trash", result.trashed as string);
+    expect(fs.readdirSync(trashed).sort()).toEqual([
+      "locus.config.json",
+      "memo.cgi",
+      "memo_01.cgi",
+      "work.cgi",
+    ]);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, "locus.config.json"), "utf-8"))).toEqual({
+      dataDir: "/local",
+      retention: { daily: 3 },
+    });
+  });
+
+  it("outputDir と git の設定はアーカイブからではなく手元のものを使う", () => {
+    const archive = sampleArchive();
+    fs.writeFileSync(
+      path.join(dir, "locus.config.json"),
+      '{"outputDir":"/local/out","git":{"enabled":false}}'
+    );
+    importArchive(archive, "replace");
+    expect(JSON.parse(fs.readFileSync(path.join(dir, "locus.config.json"), "utf-8"))).toEqual({
+      outputDir: "/local/out",
+      git: { enabled: false },
+      retention: { daily: 3 },
+    });
+  });
+
+  it("merge は既存のファイルを上書きしない", () => {
+    const archive = sampleArchive();
+    writeDoc("memo", "root\n changed\n");
+    fs.unlinkSync(path.join(dataDir(), "memo_01.cgi"));
+
+    const result = importArchive(archive, "merge");
+    expect(result).toEqual({
+      written: ["memo_01.cgi"],
+      skipped: ["memo.cgi", "locus.config.json"],
+      trashed: null,
+    });
+    expect(readDoc("memo")).toBe("root\n changed\n");
+  });
+
+  it("ドライランでは何も変更しない", () => {
+    const archive = sampleArchive();
+    writeDoc("memo", "root\n changed\n");
+    const result = importArchive(archive, "replace", true);
+    expect(result.written).toHaveLength(3);
+    expect(readDoc("memo")).toBe("root\n changed\n");
+    expect(fs.existsSync(path.join(dataDir(), "trash"))).toBe(false);
+  });
+});
+
+describe("POST /api/archive", () => {
+  it("不正なアーカイブは 400 で問題の場所を返す", async () => {
+    const archive = sampleArchive();
+    archive.manifest.version = 99;
+    for (const [body, at] of [["not json", "archive"], [JSON.stringify(archive), "manifest.version"]]) {
+      const res = await importArchiveRoute(
+        new Request("http://localhost/api/archive", { method: "POST", body })
+      );
+      expect(res.status).toBe(400);
+      expect((await res.json()).path).toBe(at);
+    }
+  });
+});
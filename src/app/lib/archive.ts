@@ -0,0 +1,264 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { writeFileAtomic } from "./fileStore";
+import { CONFIG_FILE, LocusConfig, readConfig } from "./config";
+import { TreeValidationError } from "./treeValidation";
+import { backupKind, dataDir, isValidDocName } from "./memoStore";
+import { resolveRetention, RetentionPolicy } from "./retention";
+
+/**
+ * Single-file archive of a whole installation: every document, journal and
+ * backup in the data directory plus locus.config.json, as one JSON object.
+ * The manifest lists each file with its size, checksum and mtime; mtimes are
+ * restored on import because backup retention goes by them.
+ */
+export const ARCHIVE_FORMAT = "locus-archive";
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveEntry = {
+  name: string;
+  /** Bytes of the UTF-8 content */
+  size: number;
+  /** Hex SHA-256 of the UTF-8 content */
+  sha256: string;
+  mtime: string;
+};
+
+export type LocusArchive = {
+  manifest: {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    createdAt: string;
+    files: ArchiveEntry[];
+  };
+  /** File content by entry name */
+  files: Record<string, string>;
+};
+
+/** replace moves the current data into trash/ first; merge only adds missing files */
+export type ImportMode = "replace" | "merge";
+
+export type ImportResult = {
+  written: string[];
+  skipped: string[];
+  /** Folder under trash/ holding the replaced data, if anything was replaced */
+  trashed: string | null;
+};
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content, "utf-8").digest("hex");
+}
+
+/**
+ * The document a data file belongs to, for names the archive may carry:
+ * <doc>.cgi, <doc>.journal.jsonl and <doc>'s backups. null for anything
+ * else, including paths, temp files and trash/.
+ */
+export function archivedDoc(name: string): string | null {
+  // Document names contain neither "." nor "_"
+  const doc = name.match(/^[^._]+/)?.[0];
+  if (doc === undefined || !isValidDocName(doc)) return null;
+  if (name === `${doc}.cgi` || name === `${doc}.journal.jsonl`) return doc;
+  return backupKind(doc, name) !== null ? doc : null;
+}
+
+/** Data files that go into an archive, by name */
+function dataFiles(): string[] {
+  return fs
+    .readdirSync(dataDir())
+    .filter((name) => archivedDoc(name) !== null)
+    .sort();
+}
+
+function entry(name: string, content: string, mtime: Date): ArchiveEntry {
+  return {
+    name,
+    size: Buffer.byteLength(content, "utf-8"),
+    sha256: sha256(content),
+    mtime: mtime.toISOString(),
+  };
+}
+
+/** Archive the data directory and settings as they are now */
+export function createArchive(): LocusArchive {
+  const files: Record<string, string> = {};
+  const entries: ArchiveEntry[] = [];
+  const add = (name: string, file: string) => {
+    const content = fs.readFileSync(file, "utf-8");
+    files[name] = content;
+    entries.push(entry(name, content, fs.statSync(file).mtime));
+  };
+
+  const dir = dataDir();
+  for (const name of dataFiles()) add(name, path.join(dir, name));
+  const config = path.join(process.cwd(), CONFIG_FILE);
+  if (fs.existsSync(config)) add(CONFIG_FILE, config);
+
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      createdAt: new Date().toISOString(),
+      files: entries,
+    },
+    files,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that value is an archive this server can restore: known format,
+ * only data file names, and every file matching its size and checksum.
+ * Throws TreeValidationError naming the first problem.
+ */
+export function validateArchive(value: unknown): LocusArchive {
+  if (!isObject(value)) throw new TreeValidationError("archive", "must be a JSON object");
+  const { manifest, files } = value;
+  if (!isObject(manifest)) throw new TreeValidationError("manifest", "is missing");
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new TreeValidationError("manifest.format", `must be "${ARCHIVE_FORMAT}"`);
+  }
+  if (
+    typeof manifest.version !== "number" ||
+    !Number.isInteger(manifest.version) ||
+    manifest.version < 1
+  ) {
+    throw new TreeValidationError("manifest.version", "must be an integer from 1");
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new TreeValidationError(
+      "manifest.version",
+      `${manifest.version} is newer than this server understands (${ARCHIVE_VERSION})`
+    );
+  }
+  if (!Array.isArray(manifest.files)) {
+    throw new TreeValidationError("manifest.files", "must be an array");
+  }
+  if (!isObject(files)) throw new TreeValidationError("files", "must be an object");
+
+  const seen = new Set<string>();
+  manifest.files.forEach((item: unknown, i) => {
+    const at = `manifest.files[${i}]`;
+    if (!isObject(item)) throw new TreeValidationError(at, "must be an object");
+    const { name, size, sha256: checksum, mtime } = item;
+    // Names become paths in the data directory, so only known data file names
+    if (typeof name !== "string" || (name !== CONFIG_FILE && archivedDoc(name) === null)) {
+      throw new TreeValidationError(`${at}.name`, "is not a Locus data file name");
+    }
+    if (seen.has(name)) throw new TreeValidationError(`${at}.name`, `${name} is listed twice`);
+    seen.add(name);
+    if (typeof mtime !== "string" || Number.isNaN(Date.parse(mtime))) {
+      throw new TreeValidationError(`${at}.mtime`, "must be a date");
+    }
+    const content = files[name];
+    if (typeof content !== "string") {
+      throw new TreeValidationError(`files.${name}`, "is missing");
+    }
+    if (size !== Buffer.byteLength(content, "utf-8") || checksum !== sha256(content)) {
+      throw new TreeValidationError(`files.${name}`, "does not match its size and checksum");
+    }
+    if (name === CONFIG_FILE) {
+      let settings: unknown;
+      try {
+        settings = JSON.parse(content);
+      } catch {
+        settings = null;
+      }
+      if (!isObject(settings)) {
+        throw new TreeValidationError(`files.${name}`, "is not a valid settings file");
+      }
+      // Settings that would break saving once restored
+      try {
+        resolveRetention(settings.retention as Partial<RetentionPolicy> | undefined);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new TreeValidationError(`files.${name}`, message);
+      }
+    }
+  });
+  const unlisted = Object.keys(files).find((name) => !seen.has(name));
+  if (unlisted !== undefined) {
+    throw new TreeValidationError(`files.${unlisted}`, "is not listed in the manifest");
+  }
+  return value as LocusArchive;
+}
+
+/** Documents an import touches: those in the archive and, when replacing, the current ones */
+export function importedDocs(archive: LocusArchive, mode: ImportMode): string[] {
+  const names = archive.manifest.files.map((f) => f.name);
+  if (mode === "replace") names.push(...dataFiles());
+  const docs = names.map(archivedDoc).filter((doc): doc is string => doc !== null);
+  return [...new Set(docs)].sort();
+}
+
+/** Settings that describe this machine rather than the data, so an import keeps the local ones */
+const LOCAL_SETTINGS = ["dataDir", "outputDir", "git"] as const;
+
+/**
+ * Settings to write for an imported settings file. Directories and the git
+ * repository belong to the machine the archive came from, so the local
+ * LOCAL_SETTINGS are kept (or stay unset) and the rest comes from the archive.
+ */
+function importedSettings(content: string): string {
+  const settings = JSON.parse(content) as LocusConfig;
+  const config = readConfig();
+  const local: LocusConfig = {};
+  for (const key of LOCAL_SETTINGS) {
+    delete settings[key];
+    if (config[key] !== undefined) Object.assign(local, { [key]: config[key] });
+  }
+  return JSON.stringify({ ...local, ...settings }, null, 2) + "\n";
+}
+
+/**
+ * Restore a validated archive. With replace the current data files move to
+ * trash/import-<timestamp>/ and settings are overwritten; with merge files
+ * that already exist are skipped. dryRun reports the same without writing.
+ * Callers hold the write locks of importedDocs().
+ */
+export function importArchive(
+  archive: LocusArchive,
+  mode: ImportMode,
+  dryRun = false
+): ImportResult {
+  const dir = dataDir();
+  const configFile = path.join(process.cwd(), CONFIG_FILE);
+  const target = (name: string) => (name === CONFIG_FILE ? configFile : path.join(dir, name));
+  const result: ImportResult = { written: [], skipped: [], trashed: null };
+
+  const current = dataFiles();
+  const replacesConfig = archive.files[CONFIG_FILE] !== undefined && fs.existsSync(configFile);
+  if (mode === "replace" && (current.length > 0 || replacesConfig)) {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    result.trashed = `import-${stamp}`;
+    if (!dryRun) {
+      const trashDir = path.join(dir, "trash", result.trashed);
+      fs.mkdirSync(trashDir, { recursive: true });
+      for (const name of current) fs.renameSync(path.join(dir, name), path.join(trashDir, name));
+      // Settings stay in place, so keep a copy of the ones being overwritten
+      if (replacesConfig) fs.copyFileSync(configFile, path.join(trashDir, CONFIG_FILE));
+    }
+  }
+
+  for (const { name, mtime } of archive.manifest.files) {
+    const exists = name === CONFIG_FILE ? fs.existsSync(configFile) : current.includes(name);
+    if (mode === "merge" && exists) {
+      result.skipped.push(name);
+      continue;
+    }
+    result.written.push(name);
+    if (dryRun) continue;
+    const content = archive.files[name];
+    const file = target(name);
+    writeFileAtomic(file, name === CONFIG_FILE ? importedSettings(content) : content);
+    if (name !== CONFIG_FILE) {
+      const time = new Date(mtime);
+      fs.utimesSync(file, time, time);
+    }
+  }
+  return result;
+}
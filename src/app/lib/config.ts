@@ -0,0 +1,32 @@
+import fs from "fs";
+import path from "path";
+import { RetentionPolicy } from "./retention";
+
+/** Server settings read from locus.config.json in the working directory */
+export type LocusConfig = {
+  /** Where documents and backups are stored; relative paths are from the working directory */
+  dataDir?: string;
+  /** Keep the data directory in a local git repository, committing after bursts of saves */
+  git?: {
+    enabled?: boolean;
+    /** Quiet time after the last save before committing (default 60s) */
+    debounceMs?: number;
+  };
+  /** Which backups pruning keeps; unset rules use DEFAULT_RETENTION */
+  retention?: Partial<RetentionPolicy>;
+  /** Where !{file:path} nodes are generated; relative paths are from the working directory */
+  outputDir?: string;
+};
+
+export const CONFIG_FILE = "locus.config.json";
+
+export function readConfig(): LocusConfig {
+  const file = path.join(process.cwd(), CONFIG_FILE);
+  if (!fs.existsSync(file)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as LocusConfig;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Invalid ${CONFIG_FILE}: ${message}`);
+  }
+}
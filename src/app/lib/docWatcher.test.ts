@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { watchDoc } from "./docWatcher";
+import { docPath, readDoc, writeDoc } from "./memoStore";
+import { revisionOf } from "./revision";
+
+let dir: string;
+const stops: (() => void)[] = [];
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-watch-"));
+  process.env.LOCUS_DATA_DIR = path.join(dir, "data");
+});
+
+afterEach(() => {
+  for (const stop of stops.splice(0)) stop();
+  delete process.env.LOCUS_DATA_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("watchDoc（ファイル変更の監視）", () => {
+  it("外部からの書き込みを新しいリビジョンで通知する", async () => {
+    readDoc("memo");
+    const revisions: string[] = [];
+    stops.push(watchDoc("memo", (revision) => revisions.push(revision)));
+
+    // Written directly, the way an editor or script would
+    fs.writeFileSync(docPath("memo"), "root\n edited\n");
+    await vi.waitFor(() => expect(revisions).toEqual([revisionOf("root\n edited\n")]));
+  });
+
+  it("内容が変わらない書き込みや他のドキュメントは通知しない", async () => {
+    readDoc("memo");
+    const revisions: string[] = [];
+    stops.push(watchDoc("memo", (revision) => revisions.push(revision)));
+
+    writeDoc("memo", "root\n");
+    writeDoc("work", "root\n");
+    writeDoc("memo", "root\n a\n");
+    await vi.waitFor(() => expect(revisions).toEqual([revisionOf("root\n a\n")]));
+  });
+
+  it("監視を止めると通知されない", async () => {
+    readDoc("memo");
+    const first: string[] = [];
+    const second: string[] = [];
+    const stop = watchDoc("memo", (revision) => first.push(revision));
+    stops.push(watchDoc("memo", (revision) => second.push(revision)));
+    stop();
+
+    writeDoc("memo", "root\n b\n");
+    await vi.waitFor(() => expect(second).toHaveLength(1));
+    expect(first).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import { revisionOf } from "./revision";
+import { docPath } from "./memoStore";
+
+/** Wait this long after the last file event before reading, so a write is seen whole */
+const SETTLE_MS = 50;
+
+type Listener = (revision: string) => void;
+
+type Watch = {
+  watcher: fs.FSWatcher;
+  listeners: Set<Listener>;
+  /** Revision listeners were last told about */
+  revision: string | null;
+  timer: ReturnType<typeof setTimeout> | null;
+};
+
+// One watcher per document file, shared by every route bundle
+const globalForWatches = globalThis as unknown as { locusDocWatches?: Map<string, Watch> };
+const watches = (globalForWatches.locusDocWatches ??= new Map());
+
+function currentRevision(file: string): string | null {
+  try {
+    return revisionOf(fs.readFileSync(file, "utf-8"));
+  } catch {
+    // Deleted, or mid-rename
+    return null;
+  }
+}
+
+function check(file: string) {
+  const watch = watches.get(file);
+  if (!watch) return;
+  watch.timer = null;
+  const revision = currentRevision(file);
+  if (revision === null || revision === watch.revision) return;
+  watch.revision = revision;
+  for (const listener of watch.listeners) listener(revision);
+}
+
+/**
+ * Call listener with the new revision whenever doc's file changes on disk,
+ * by this server or anything else (an editor, a script, git). Watches the
+ * directory rather than the file, since atomic writes replace the file.
+ * Returns a function that stops listening.
+ */
+export function watchDoc(doc: string, listener: Listener): () => void {
+  const file = docPath(doc);
+  let watch = watches.get(file);
+  if (!watch) {
+    const name = path.basename(file);
+    const watcher = fs.watch(path.dirname(file), (_event, changed) => {
+      const current = watches.get(file);
+      // Some platforms don't report the name; check on every event then
+      if (!current || (changed !== null && changed !== name)) return;
+      if (current.timer) clearTimeout(current.timer);
+      current.timer = setTimeout(() => check(file), SETTLE_MS);
+    });
+    watch = { watcher, listeners: new Set(), revision: currentRevision(file), timer: null };
+    watches.set(file, watch);
+  }
+  watch.listeners.add(listener);
+
+  const current = watch;
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size > 0 || watches.get(file) !== current) return;
+    if (current.timer) clearTimeout(current.timer);
+    current.watcher.close();
+    watches.delete(file);
+  };
+}
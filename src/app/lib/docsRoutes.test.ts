@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { GET as listDocsRoute, POST as createDocRoute } from "../api/docs/route";
+import { DELETE as deleteDocRoute, PATCH as renameDocRoute } from "../api/docs/[doc]/route";
+import { dataDir, journalPath, rotateBackups, writeDoc } from "./memoStore";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-docs-"));
+  process.env.LOCUS_DATA_DIR = dir;
+});
+
+afterEach(() => {
+  delete process.env.LOCUS_DATA_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function request(method: string, body?: string): Request {
+  return new Request("http://localhost/api/docs", { method, body });
+}
+
+const context = (doc: string) => ({ params: Promise.resolve({ doc }) });
+
+async function names(res: Response): Promise<string[]> {
+  return (await res.json()).docs.map((d: { name: string }) => d.name);
+}
+
+describe("/api/docs（ドキュメント一覧・作成）", () => {
+  it("一覧には既定のドキュメントが必ず含まれる", async () => {
+    const res = await listDocsRoute();
+    expect(res.status).toBe(200);
+    expect(await names(res)).toEqual(["memo"]);
+  });
+
+  it("新しいドキュメントを作成し、既にある名前は 409 になる", async () => {
+    const res = await createDocRoute(request("POST", JSON.stringify({ name: "work" })));
+    expect(res.status).toBe(201);
+    expect(await names(res)).toEqual(["memo", "work"]);
+    const again = await createDocRoute(request("POST", JSON.stringify({ name: "work" })));
+    expect(again.status).toBe(409);
+  });
+
+  it("_ . / を含む名前は拒否する", async () => {
+    for (const name of ["a_b", "a.b", "a/b", "../memo", "", 42]) {
+      const res = await createDocRoute(request("POST", JSON.stringify({ name })));
+      expect(res.status).toBe(400);
+    }
+    expect(fs.readdirSync(dataDir())).toEqual([]);
+  });
+
+  it("JSON でない本文や null は 500 ではなく 400 になる", async () => {
+    for (const body of ["not json", "null", "[]"]) {
+      const res = await createDocRoute(request("POST", body));
+      expect(res.status).toBe(400);
+      expect((await res.json()).path).toBe("body");
+    }
+  });
+});
+
+describe("/api/docs/[doc]（名前変更・削除）", () => {
+  it("名前変更はバックアップとジャーナルも一緒に移す", async () => {
+    writeDoc("work", "root\n");
+    rotateBackups("work");
+    fs.writeFileSync(journalPath("work"), "");
+    const res = await renameDocRoute(
+      request("PATCH", JSON.stringify({ name: "notes" })),
+      context("work")
+    );
+    expect(res.status).toBe(200);
+    expect(await names(res)).toEqual(["memo", "notes"]);
+    expect(fs.readdirSync(dataDir()).sort()).toEqual([
+      "memo.cgi",
+      "notes.cgi",
+      "notes.journal.jsonl",
+      "notes_01.cgi",
+    ]);
+  });
+
+  it("不正な名前や本文への名前変更は 400 で、何も動かさない", async () => {
+    writeDoc("work", "root\n");
+    for (const body of [JSON.stringify({ name: "a_b" }), JSON.stringify({ name: "a.b" }), "null"]) {
+      const res = await renameDocRoute(request("PATCH", body), context("work"));
+      expect(res.status).toBe(400);
+    }
+    expect(fs.existsSync(path.join(dataDir(), "work.cgi"))).toBe(true);
+  });
+
+  it("既定のドキュメントは名前変更も削除もできない", async () => {
+    writeDoc("memo", "root\n");
+    const rename = await renameDocRoute(
+      request("PATCH", JSON.stringify({ name: "other" })),
+      context("memo")
+    );
+    expect(rename.status).toBe(400);
+    expect((await deleteDocRoute(request("DELETE"), context("memo"))).status).toBe(400);
+  });
+
+  it("削除するとバックアップとジャーナルごと trash に移る", async () => {
+    writeDoc("work", "root\n");
+    rotateBackups("work");
+    fs.writeFileSync(journalPath("work"), "");
+    const res = await deleteDocRoute(request("DELETE"), context("work"));
+    expect(res.status).toBe(200);
+    expect(await names(res)).toEqual(["memo"]);
+    const [trashed] = fs.readdirSync(path.join(dataDir(), "trash"));
+    expect(trashed).toMatch(/^work-/);
+    expect(fs.readdirSync(path.join(dataDir(), "trash", trashed)).sort()).toEqual([
+      "work.cgi",
+      "work.journal.jsonl",
+      "work_01.cgi",
+    ]);
+  });
+
+  it("存在しないドキュメントは 404 になる", async () => {
+    expect((await deleteDocRoute(request("DELETE"), context("nothing"))).status).toBe(404);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { brokenRefs, entityIndex, isValidEntityName, resolveRef, splitRefs } from "./entities";
+import { TreeNodeData } from "../components/TreeNode";
+
+// root
+//   用語集 (entity: 用語集)
+//     API (entity: API)
+//   !{ref:用語集} と !{ref:API} を参照
+//   !{ref:仕様書} は存在しない
+//   用語集の写し (entity: 用語集)
+//   !{child:用語集:1} と !{child:用語集:2}
+const testTree: TreeNodeData[] = [
+  {
+    id: 1, text: "root", indent: 0, closed: false, children: [
+      {
+        id: 2, text: "用語集", indent: 1, closed: false, entity: "用語集", children: [
+          { id: 3, text: "API", indent: 2, closed: false, entity: "API", children: [] },
+        ],
+      },
+      { id: 4, text: "!{ref:用語集} と !{ref:API} を参照", indent: 1, closed: false, children: [] },
+      { id: 5, text: "!{ref:仕様書} は存在しない", indent: 1, closed: false, children: [] },
+      { id: 6, text: "用語集の写し", indent: 1, closed: false, entity: "用語集", children: [] },
+      { id: 7, text: "!{child:用語集:1} と !{child:用語集:2}", indent: 1, closed: false, children: [] },
+    ],
+  },
+];
+
+describe("isValidEntityName（エンティティ名の検証）", () => {
+  it("空白・括弧・コロンを含まない名前だけを受け付ける", () => {
+    expect(isValidEntityName("用語集")).toBe(true);
+    expect(isValidEntityName("api-v2.1")).toBe(true);
+    for (const bad of ["", "a b", "a:b", "a{b", "a}b", "x".repeat(65)]) {
+      expect(isValidEntityName(bad)).toBe(false);
+    }
+  });
+});
+
+describe("splitRefs（参照の分割）", () => {
+  it("本文と参照に分けて順に返す", () => {
+    expect(splitRefs("!{ref:用語集} と !{ref:API}。")).toEqual([
+      { type: "ref", name: "用語集" },
+      { type: "text", text: " と " },
+      { type: "ref", name: "API" },
+      { type: "text", text: "。" },
+    ]);
+  });
+
+  it("子プレースホルダは名前と番号に分ける", () => {
+    expect(splitRefs("前 !{child:用語集:12}")).toEqual([
+      { type: "text", text: "前 " },
+      { type: "child", name: "用語集", index: 12 },
+    ]);
+  });
+
+  it("参照のないテキストや不正な参照はそのまま本文になる", () => {
+    expect(splitRefs("普通のテキスト")).toEqual([{ type: "text", text: "普通のテキスト" }]);
+    expect(splitRefs("!{ref:a b}")).toEqual([{ type: "text", text: "!{ref:a b}" }]);
+    expect(splitRefs("!{child:a:x}")).toEqual([{ type: "text", text: "!{child:a:x}" }]);
+    expect(splitRefs("")).toEqual([]);
+  });
+});
+
+describe("entityIndex / brokenRefs", () => {
+  it("名前からノードIDを引け、重複した宣言は後のノードが報告される", () => {
+    const { ids, duplicates } = entityIndex(testTree);
+    expect([...ids]).toEqual([["用語集", 2], ["API", 3]]);
+    expect([...duplicates]).toEqual([6]);
+  });
+
+  it("存在しないエンティティや子への参照を持つノードを返す", () => {
+    expect(brokenRefs(testTree)).toEqual([5, 7]);
+  });
+});
+
+describe("resolveRef（参照先の解決）", () => {
+  const { nodes } = entityIndex(testTree);
+
+  it("参照はエンティティ自身、子プレースホルダはその n 番目の子を指す", () => {
+    expect(resolveRef({ type: "ref", name: "用語集" }, nodes)).toMatchObject({ node: { id: 2 } });
+    expect(resolveRef({ type: "child", name: "用語集", index: 1 }, nodes)).toMatchObject({
+      node: { id: 3 },
+    });
+  });
+
+  it("存在しないエンティティや番号は理由を返す", () => {
+    expect(resolveRef({ type: "ref", name: "仕様書" }, nodes)).toEqual({
+      error: 'No entity named "仕様書"',
+    });
+    expect(resolveRef({ type: "child", name: "用語集", index: 2 }, nodes)).toEqual({
+      error: '"用語集" has no child 2 (it has 1 child)',
+    });
+    expect(resolveRef({ type: "child", name: "API", index: 0 }, nodes)).toEqual({
+      error: '"API" has no child 0 (it has 0 children)',
+    });
+  });
+});
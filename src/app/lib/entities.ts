@@ -0,0 +1,120 @@
+import { TreeNodeData } from "../components/TreeNode";
+
+/**
+ * Named entities: a node declared with !{entity:Name} (TreeNodeData.entity)
+ * can be referred to from any node's text with !{ref:Name}, or just its
+ * n-th child with !{child:Name:n}.
+ *
+ * Names are free-form except for whitespace, braces and ":", which would
+ * end the marker early.
+ */
+const ENTITY_NAME = /^[^\s{}:]{1,64}$/;
+
+/** Matches !{ref:Name} markers in node text; the name is group 1 */
+export const REF_PATTERN = /!\{ref:([^\s{}:]{1,64})\}/g;
+
+/**
+ * Matches !{ref:Name} and !{child:Name:n}, the n-th (1-based) child of an
+ * entity: the ref name is group 1, the child name and number groups 2 and 3
+ */
+export const MARKER_PATTERN = /!\{ref:([^\s{}:]{1,64})\}|!\{child:([^\s{}:]{1,64}):(\d{1,6})\}/g;
+
+export function isValidEntityName(name: string): boolean {
+  return ENTITY_NAME.test(name);
+}
+
+export type RefPart = { type: "ref"; name: string } | { type: "child"; name: string; index: number };
+
+export type TextPart = { type: "text"; text: string } | RefPart;
+
+/** The marker a MARKER_PATTERN match stands for */
+export function markerPart(match: RegExpMatchArray | string[]): RefPart {
+  return match[1] !== undefined
+    ? { type: "ref", name: match[1] }
+    : { type: "child", name: match[2], index: Number(match[3]) };
+}
+
+/** Split node text into plain runs and !{ref:Name} / !{child:Name:n} markers, in order */
+export function splitRefs(text: string): TextPart[] {
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MARKER_PATTERN)) {
+    if (match.index > last) parts.push({ type: "text", text: text.slice(last, match.index) });
+    parts.push(markerPart(match));
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ type: "text", text: text.slice(last) });
+  return parts;
+}
+
+/** How a marker is written, for labels and messages: Name or Name:n */
+export function markerLabel(part: RefPart): string {
+  return part.type === "ref" ? part.name : `${part.name}:${part.index}`;
+}
+
+/**
+ * The node a marker points at: the entity itself, or its n-th child.
+ * entities maps names to their declaring nodes (entityIndex().nodes).
+ */
+export function resolveRef(
+  part: RefPart,
+  entities: Map<string, TreeNodeData>
+): { node: TreeNodeData } | { error: string } {
+  const entity = entities.get(part.name);
+  if (!entity) return { error: `No entity named "${part.name}"` };
+  if (part.type === "ref") return { node: entity };
+  const child = part.index >= 1 ? entity.children[part.index - 1] : undefined;
+  if (!child) {
+    const count = entity.children.length;
+    return {
+      error: `"${part.name}" has no child ${part.index} (it has ${count} ${count === 1 ? "child" : "children"})`,
+    };
+  }
+  return { node: child };
+}
+
+/**
+ * Entity name → node id (and the node itself). When a name is declared
+ * twice, the first node in document order wins; the rest are listed in
+ * duplicates.
+ */
+export function entityIndex(nodes: TreeNodeData[]): {
+  ids: Map<string, number>;
+  nodes: Map<string, TreeNodeData>;
+  duplicates: Set<number>;
+} {
+  const ids = new Map<string, number>();
+  const byName = new Map<string, TreeNodeData>();
+  const duplicates = new Set<number>();
+  function walk(list: TreeNodeData[]) {
+    for (const node of list) {
+      if (node.entity !== undefined) {
+        if (ids.has(node.entity)) duplicates.add(node.id);
+        else {
+          ids.set(node.entity, node.id);
+          byName.set(node.entity, node);
+        }
+      }
+      walk(node.children);
+    }
+  }
+  walk(nodes);
+  return { ids, nodes: byName, duplicates };
+}
+
+/** Ids of nodes whose text refers to an entity nobody declares, or to a child it doesn't have */
+export function brokenRefs(nodes: TreeNodeData[]): number[] {
+  const { nodes: entities } = entityIndex(nodes);
+  const broken: number[] = [];
+  function walk(list: TreeNodeData[]) {
+    for (const node of list) {
+      const parts = splitRefs(node.text);
+      if (parts.some((p) => p.type !== "text" && "error" in resolveRef(p, entities))) {
+        broken.push(node.id);
+      }
+      walk(node.children);
+    }
+  }
+  walk(nodes);
+  return broken;
+}
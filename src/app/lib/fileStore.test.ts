@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { writeFileAtomic, withWriteLock } from "./fileStore";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-filestore-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("writeFileAtomic（アトミック書き込み）", () => {
+  it("内容を書き込み、一時ファイルを残さない", () => {
+    const file = path.join(dir, "memo.cgi");
+    writeFileAtomic(file, "root\n");
+    writeFileAtomic(file, "root\n child\n");
+    expect(fs.readFileSync(file, "utf-8")).toBe("root\n child\n");
+    expect(fs.readdirSync(dir)).toEqual(["memo.cgi"]);
+  });
+
+  it("書き込みに失敗しても元のファイルは残る", () => {
+    const file = path.join(dir, "memo.cgi");
+    writeFileAtomic(file, "root\n");
+    // ディレクトリを置き換え先にすると rename が失敗する
+    const target = path.join(dir, "sub");
+    fs.mkdirSync(path.join(target, "x"), { recursive: true });
+    expect(() => writeFileAtomic(target, "data")).toThrow();
+    expect(fs.readFileSync(file, "utf-8")).toBe("root\n");
+    expect(fs.readdirSync(dir).sort()).toEqual(["memo.cgi", "sub"]);
+  });
+});
+
+describe("withWriteLock（書き込みロック）", () => {
+  it("同じキーの処理は呼び出し順に1つずつ実行される", async () => {
+    const events: string[] = [];
+    const task = (name: string, ms: number) => async () => {
+      events.push(`${name}:start`);
+      await new Promise((r) => setTimeout(r, ms));
+      events.push(`${name}:end`);
+      return name;
+    };
+    const results = await Promise.all([
+      withWriteLock("memo", task("a", 20)),
+      withWriteLock("memo", task("b", 1)),
+    ]);
+    expect(results).toEqual(["a", "b"]);
+    expect(events).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+  });
+
+  it("前の処理が失敗しても次の処理は実行される", async () => {
+    const failed = withWriteLock("memo", () => {
+      throw new Error("boom");
+    });
+    const next = withWriteLock("memo", () => "ok");
+    await expect(failed).rejects.toThrow("boom");
+    await expect(next).resolves.toBe("ok");
+  });
+});
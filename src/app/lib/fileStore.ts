@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Write a file so readers only ever see the old or the new content:
+ * write to a temp file in the same directory, fsync it, then rename it over
+ * the target. A crash or full disk mid-write leaves the target untouched.
+ */
+export function writeFileAtomic(filePath: string, content: string) {
+  const dir = path.dirname(filePath);
+  const tmpPath = path.join(
+    dir,
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+
+  let fd: number | null = null;
+  try {
+    fd = fs.openSync(tmpPath, "w");
+    fs.writeFileSync(fd, content, "utf-8");
+    fs.fsyncSync(fd);
+    fs.closeSync(fd);
+    fd = null;
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    if (fd !== null) fs.closeSync(fd);
+    if (fs.existsSync(tmpPath)) fs.unlinkSync(tmpPath);
+    throw error;
+  }
+
+  // Persist the rename itself; not supported on every platform
+  try {
+    const dirFd = fs.openSync(dir, "r");
+    try {
+      fs.fsyncSync(dirFd);
+    } finally {
+      fs.closeSync(dirFd);
+    }
+  } catch {
+    // Directory fsync is best effort
+  }
+}
+
+// Kept on globalThis so every route bundle shares the same locks
+const globalForLocks = globalThis as unknown as {
+  locusWriteLocks?: Map<string, Promise<unknown>>;
+};
+const locks = (globalForLocks.locusWriteLocks ??= new Map());
+
+/**
+ * Run fn while holding the write lock for key (usually the memo file path).
+ * Callers with the same key run one at a time, in call order.
+ */
+export function withWriteLock<T>(key: string, fn: () => T | Promise<T>): Promise<T> {
+  const previous = locks.get(key) ?? Promise.resolve();
+  const result = previous.then(fn, fn);
+  const tail = result.catch(() => {});
+  locks.set(key, tail);
+  // Drop the entry once nobody is queued behind us
+  tail.then(() => {
+    if (locks.get(key) === tail) locks.delete(key);
+  });
+  return result;
+}
+
+/** Run fn while holding every lock in keys, taken in sorted order so callers can't deadlock */
+export function withWriteLocks<T>(keys: string[], fn: () => T | Promise<T>): Promise<T> {
+  const [first, ...rest] = [...new Set(keys)].sort();
+  if (first === undefined) return Promise.resolve().then(fn);
+  return withWriteLock(first, () => withWriteLocks(rest, fn));
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileNodes, generateFiles, renderFile, resolveOutputPath, unifiedDiff } from "./generate";
+import { TreeNodeData } from "../components/TreeNode";
+
+// root
+//   !{file:README.md} はじめに
+//     !{ref:挨拶}
+//   設定 !{file:conf/app.txt}
+//     port 80
+//       tls off
+//   逃げる !{file:../escape.txt}
+//   重複 !{file:conf/app.txt}
+// こんにちは (entity: 挨拶)
+const testTree: TreeNodeData[] = [
+  {
+    id: 1, text: "root", indent: 0, closed: false, children: [
+      {
+        id: 2, text: "!{file:README.md} はじめに", indent: 1, closed: false, children: [
+          { id: 3, text: "!{ref:挨拶}", indent: 2, closed: false, children: [] },
+        ],
+      },
+      {
+        id: 4, text: "設定 !{file:conf/app.txt}", indent: 1, closed: false, children: [
+          {
+            id: 5, text: "port 80", indent: 2, closed: false, children: [
+              { id: 6, text: "tls off", indent: 3, closed: false, children: [] },
+            ],
+          },
+        ],
+      },
+      { id: 7, text: "逃げる !{file:../escape.txt}", indent: 1, closed: false, children: [] },
+      { id: 8, text: "重複 !{file:conf/app.txt}", indent: 1, closed: false, children: [] },
+    ],
+  },
+  { id: 9, text: "こんにちは", indent: 0, closed: false, entity: "挨拶", children: [] },
+];
+
+let dir: string;
+let root: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-generate-"));
+  root = path.join(dir, "out");
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("fileNodes / renderFile", () => {
+  it("!{file:path} を持つノードを文書順に返す", () => {
+    expect(fileNodes(testTree).map(({ node, path }) => [node.id, path])).toEqual([
+      [2, "README.md"],
+      [4, "conf/app.txt"],
+      [7, "../escape.txt"],
+      [8, "conf/app.txt"],
+    ]);
+  });
+
+  it("拡張子で形式を選び、参照を展開してマーカーは取り除く", () => {
+    const [readme, conf] = fileNodes(testTree);
+    expect(renderFile(testTree, readme.node, readme.path).content).toBe(
+      "# はじめに\n\n- こんにちは\n"
+    );
+    expect(renderFile(testTree, conf.node, conf.path).content).toBe("port 80\n  tls off\n");
+  });
+});
+
+describe("resolveOutputPath（出力先の検証）", () => {
+  it("出力ディレクトリの中の相対パスだけを受け付ける", () => {
+    expect(resolveOutputPath(root, "a/b.txt")).toEqual({ target: path.join(root, "a", "b.txt") });
+    for (const bad of ["../x.txt", "a/../../x.txt", "/etc/passwd", ".", ""]) {
+      expect(resolveOutputPath(root, bad)).toHaveProperty("error");
+    }
+  });
+
+  it("外を指すシンボリックリンクを経由するパスは拒否する", () => {
+    fs.mkdirSync(root);
+    fs.mkdirSync(path.join(dir, "elsewhere"));
+    fs.symlinkSync(path.join(dir, "elsewhere"), path.join(root, "link"));
+    expect(resolveOutputPath(root, "link/x.txt")).toEqual({
+      error: "Path escapes the output directory through a symlink",
+    });
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("新規ファイルは /dev/null からの追加になる", () => {
+    expect(unifiedDiff(null, "a\nb\n", "x.txt")).toBe(
+      "--- /dev/null\n+++ b/x.txt\n@@ -0,0 +1,2 @@\n+a\n+b\n"
+    );
+  });
+
+  it("変更箇所の前後3行だけをハンクにする", () => {
+    const before = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n";
+    const after = "1\n2\n3\n4\n5\n六\n7\n8\n9\n10\n";
+    expect(unifiedDiff(before, after, "x.txt")).toBe(
+      "--- a/x.txt\n+++ b/x.txt\n@@ -3,7 +3,7 @@\n 3\n 4\n 5\n-6\n+六\n 7\n 8\n 9\n"
+    );
+    expect(unifiedDiff(before, before, "x.txt")).toBe("");
+  });
+});
+
+describe("generateFiles（ファイル生成）", () => {
+  it("ドライランでは何も書かずに予定と拒否を返す", () => {
+    const result = generateFiles(root, testTree, testTree, true);
+    expect(result.files.map((f) => [f.path, f.status])).toEqual([
+      ["README.md", "create"],
+      ["conf/app.txt", "create"],
+    ]);
+    expect(result.refused).toEqual([
+      { nodeId: 7, path: "../escape.txt", error: "Path escapes the output directory" },
+      { nodeId: 8, path: "conf/app.txt", error: "Also generated by node 4" },
+    ]);
+    expect(fs.existsSync(root)).toBe(false);
+  });
+
+  it("書き出した後は変更のあるファイルだけを差分付きで更新する", () => {
+    generateFiles(root, testTree, testTree);
+    expect(fs.readFileSync(path.join(root, "conf", "app.txt"), "utf-8")).toBe("port 80\n  tls off\n");
+
+    const edited = JSON.parse(JSON.stringify(testTree)) as TreeNodeData[];
+    edited[0].children[1].children[0].children[0].text = "tls on";
+    const result = generateFiles(root, edited, [edited[0].children[1]], true);
+    expect(result.files).toEqual([
+      {
+        nodeId: 4,
+        path: "conf/app.txt",
+        status: "update",
+        diff: "--- a/conf/app.txt\n+++ b/conf/app.txt\n@@ -1,2 +1,2 @@\n port 80\n-  tls off\n+  tls on\n",
+        problems: [],
+      },
+    ]);
+    expect(generateFiles(root, testTree, testTree).files.map((f) => f.status)).toEqual([
+      "unchanged",
+      "unchanged",
+    ]);
+  });
+});
@@ -0,0 +1,249 @@
+import fs from "fs";
+import path from "path";
+import { TreeNodeData } from "../components/TreeNode";
+import { readConfig } from "./config";
+import { writeFileAtomic } from "./fileStore";
+import { expandRefs, ExpansionProblem, treeToHtml, treeToMarkdown, treeToText } from "./treeUtils";
+
+/**
+ * File generation: a node whose text holds !{file:path} is written out, with
+ * its references expanded, to path inside the output directory. The
+ * extension picks the format: .html/.htm and .md/.markdown render the
+ * subtree with the node's text (marker removed) as the heading; anything
+ * else gets the children as indented plain text.
+ */
+export const FILE_PATTERN = /!\{file:([^{}\n]{1,255})\}/;
+
+const FILE_MARKERS = new RegExp(FILE_PATTERN.source, "g");
+
+/** Lines of unchanged context around each change in a diff */
+const CONTEXT = 3;
+
+/** Diffs above this many line pairs just replace every line */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** create and update are written; unchanged files are left alone */
+export type FileStatus = "create" | "update" | "unchanged";
+
+export type PlannedFile = {
+  nodeId: number;
+  /** As written in the marker */
+  path: string;
+  status: FileStatus;
+  /** Unified diff from the existing file (or /dev/null); empty when unchanged */
+  diff: string;
+  /** References left as written in the output */
+  problems: ExpansionProblem[];
+};
+
+export type RefusedFile = { nodeId: number; path: string; error: string };
+
+export type GenerationResult = {
+  dryRun: boolean;
+  files: PlannedFile[];
+  refused: RefusedFile[];
+};
+
+/** Configured output directory: LOCUS_OUTPUT_DIR, then outputDir in locus.config.json; null if neither */
+export function outputDir(): string | null {
+  const configured = process.env.LOCUS_OUTPUT_DIR || readConfig().outputDir;
+  return configured ? path.resolve(process.cwd(), configured) : null;
+}
+
+/** Nodes marked with !{file:path} in the given subtrees, in document order */
+export function fileNodes(nodes: TreeNodeData[]): { node: TreeNodeData; path: string }[] {
+  const found: { node: TreeNodeData; path: string }[] = [];
+  function walk(list: TreeNodeData[]) {
+    for (const node of list) {
+      const match = node.text.match(FILE_PATTERN);
+      if (match) found.push({ node, path: match[1].trim() });
+      walk(node.children);
+    }
+  }
+  walk(nodes);
+  return found;
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Where a marker's path is written, or why it can't be: it must be relative
+ * and stay inside root, also once symlinks already on disk are followed.
+ */
+export function resolveOutputPath(root: string, file: string): { target: string } | { error: string } {
+  if (file === "" || file.includes("\0")) return { error: "Invalid path" };
+  if (path.isAbsolute(file) || /^[A-Za-z]:/.test(file) || file.startsWith("\\")) {
+    return { error: "Path must be relative to the output directory" };
+  }
+  const target = path.resolve(root, file);
+  if (!isInside(root, target)) return { error: "Path escapes the output directory" };
+
+  // The nearest part of the path that exists must not lead outside through a symlink
+  if (fs.existsSync(root)) {
+    let existing = target;
+    while (!fs.existsSync(existing)) existing = path.dirname(existing);
+    const real = fs.realpathSync(existing);
+    const realRoot = fs.realpathSync(root);
+    if (real !== realRoot && !isInside(realRoot, real)) {
+      return { error: "Path escapes the output directory through a symlink" };
+    }
+  }
+  return { target };
+}
+
+/** Copy of the tree with every !{file:...} marker removed from the text */
+function stripMarkers(node: TreeNodeData): TreeNodeData {
+  const text = FILE_PATTERN.test(node.text) ? node.text.replace(FILE_MARKERS, "").trim() : node.text;
+  return { ...node, text, children: node.children.map(stripMarkers) };
+}
+
+/** Content of the file for a marked node, chosen by the file's extension */
+export function renderFile(
+  nodes: TreeNodeData[],
+  node: TreeNodeData,
+  file: string
+): { content: string; problems: ExpansionProblem[] } {
+  const { node: expanded, problems } = expandRefs(nodes, node);
+  const stripped = stripMarkers(expanded);
+  const ext = path.extname(file).toLowerCase();
+  const content =
+    ext === ".html" || ext === ".htm"
+      ? treeToHtml(stripped)
+      : ext === ".md" || ext === ".markdown"
+        ? treeToMarkdown(stripped)
+        : treeToText(stripped.children);
+  return { content, problems };
+}
+
+function lines(text: string): string[] {
+  if (text === "") return [];
+  const split = text.split("\n");
+  if (split[split.length - 1] === "") split.pop();
+  return split;
+}
+
+/** Unified diff of two texts by line; before null means the file doesn't exist */
+export function unifiedDiff(before: string | null, after: string, name: string): string {
+  const a = lines(before ?? "");
+  const b = lines(after);
+  const ops: { type: " " | "-" | "+"; line: string }[] = [];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    ops.push(...a.map((line) => ({ type: "-" as const, line })));
+    ops.push(...b.map((line) => ({ type: "+" as const, line })));
+  } else {
+    // lcs[i * (m + 1) + j]: longest common subsequence of a[i..] and b[j..]
+    const m = b.length;
+    const lcs = new Uint32Array((a.length + 1) * (m + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] =
+          a[i] === b[j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < m) {
+      if (i < a.length && j < m && a[i] === b[j]) {
+        ops.push({ type: " ", line: a[i++] });
+        j++;
+      } else if (j === m || (i < a.length && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        ops.push({ type: "-", line: a[i++] });
+      } else {
+        ops.push({ type: "+", line: b[j++] });
+      }
+    }
+  }
+  if (ops.every((op) => op.type === " ")) return "";
+
+  // Line numbers before each op, for the hunk headers
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const op of ops) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (op.type !== "+") oldLine++;
+    if (op.type !== "-") newLine++;
+  }
+
+  let out = `--- ${before === null ? "/dev/null" : `a/${name}`}\n+++ b/${name}\n`;
+  let k = 0;
+  while (k < ops.length) {
+    while (k < ops.length && ops[k].type === " ") k++;
+    if (k === ops.length) break;
+    // Changes closer than twice the context share a hunk
+    let last = k;
+    let j = k;
+    while (j < ops.length && (ops[j].type !== " " || j - last <= 2 * CONTEXT)) {
+      if (ops[j].type !== " ") last = j;
+      j++;
+    }
+    const start = Math.max(0, k - CONTEXT);
+    const end = Math.min(ops.length, last + CONTEXT + 1);
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    const oldStart = oldCount === 0 ? oldAt[start] : oldAt[start] + 1;
+    const newStart = newCount === 0 ? newAt[start] : newAt[start] + 1;
+    out += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    for (const op of hunk) out += `${op.type}${op.line}\n`;
+    k = end;
+  }
+  return out;
+}
+
+/**
+ * Render every marked node in scope (subtrees of nodes, the whole document)
+ * and write the ones that changed into root. With dryRun nothing is written;
+ * the result says what would be. Paths that escape root, or that an earlier
+ * node already generates, are refused.
+ */
+export function generateFiles(
+  root: string,
+  nodes: TreeNodeData[],
+  scope: TreeNodeData[],
+  dryRun: boolean = false
+): GenerationResult {
+  const files: PlannedFile[] = [];
+  const refused: RefusedFile[] = [];
+  const claimed = new Map<string, number>();
+
+  for (const { node, path: file } of fileNodes(scope)) {
+    const refuse = (error: string) => refused.push({ nodeId: node.id, path: file, error });
+    const resolved = resolveOutputPath(root, file);
+    if ("error" in resolved) {
+      refuse(resolved.error);
+      continue;
+    }
+    const { target } = resolved;
+    const owner = claimed.get(target);
+    if (owner !== undefined) {
+      refuse(`Also generated by node ${owner}`);
+      continue;
+    }
+    claimed.set(target, node.id);
+    if (fs.existsSync(target) && !fs.statSync(target).isFile()) {
+      refuse("Not a regular file");
+      continue;
+    }
+
+    const { content, problems } = renderFile(nodes, node, file);
+    const existing = fs.existsSync(target) ? fs.readFileSync(target, "utf-8") : null;
+    const status: FileStatus =
+      existing === null ? "create" : existing === content ? "unchanged" : "update";
+    const name = path.relative(root, target).split(path.sep).join("/");
+    files.push({ nodeId: node.id, path: file, status, diff: unifiedDiff(existing, content, name), problems });
+
+    if (!dryRun && status !== "unchanged") {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      writeFileAtomic(target, content);
+    }
+  }
+  return { dryRun, files, refused };
+}
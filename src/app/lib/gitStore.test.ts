@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { commitMessage, commitNow, history, readAtCommit, gitEnabled } from "./gitStore";
+import { writeDoc, rotateBackups } from "./memoStore";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-git-"));
+  process.env.LOCUS_DATA_DIR = dir;
+  process.env.LOCUS_GIT = "1";
+});
+
+afterEach(() => {
+  delete process.env.LOCUS_DATA_DIR;
+  delete process.env.LOCUS_GIT;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("commitMessage（コミットメッセージ）", () => {
+  it("ドキュメントごとの変更を要約する", () => {
+    expect(
+      commitMessage([{ doc: "memo", before: "root\n a\n", after: "root\n b\n c\n" }])
+    ).toBe("memo: 1 added, 1 edited");
+  });
+
+  it("複数のドキュメントは件名と本文に分かれる", () => {
+    const message = commitMessage([
+      { doc: "memo", before: null, after: "root\n" },
+      { doc: "work", before: "root\n", after: null },
+    ]);
+    expect(message).toBe("Update memo, work\n\nmemo: created\nwork: deleted");
+  });
+});
+
+describe("commitNow / history（git によるバージョン管理）", () => {
+  it("設定済みのデータディレクトリでのみ有効になる", () => {
+    expect(gitEnabled()).toBe(true);
+    delete process.env.LOCUS_DATA_DIR;
+    expect(gitEnabled()).toBe(false);
+  });
+
+  it("保存をコミットし、履歴と過去の内容を読める", async () => {
+    writeDoc("memo", "root\n");
+    const first = await commitNow();
+    expect(first).toMatch(/^[0-9a-f]{40}$/);
+
+    writeDoc("memo", "root\n child\n");
+    rotateBackups("memo");
+    await commitNow();
+
+    const commits = await history("memo");
+    expect(commits.map((c) => c.message)).toEqual(["memo: 1 added", "memo: created"]);
+    expect(await readAtCommit("memo", `git:${first}`)).toBe("root\n");
+    // バックアップファイルはコミットされない
+    const tracked = fs.readFileSync(path.join(dir, ".gitignore"), "utf-8");
+    expect(tracked).toContain("*_[0-9]*.cgi");
+  });
+
+  it("変更がなければコミットしない", async () => {
+    writeDoc("memo", "root\n");
+    await commitNow();
+    expect(await commitNow()).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { execFile } from "child_process";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { readConfig } from "./config";
+import { withWriteLock } from "./fileStore";
+import { dataDir, LEGACY_DATA_DIR } from "./memoStore";
+import { parseMemo } from "./memoCodec";
+import { diffTrees, NodeChange } from "./treeDiff";
+
+const run = promisify(execFile);
+
+const DEFAULT_DEBOUNCE_MS = 60 * 1000;
+
+/** Only documents are versioned; git replaces the backup files */
+const DATA_GITIGNORE = [
+  "*_[0-9]*.cgi",
+  "*_weekly_*.cgi",
+  "*_pinned_*.cgi",
+  "*.journal.jsonl",
+  ".*.tmp",
+  "trash/",
+  "",
+].join("\n");
+
+export type Commit = { hash: string; date: string; message: string };
+
+/**
+ * Git versioning is on with LOCUS_GIT=1 or git.enabled in locus.config.json,
+ * and only for a configured data directory: the legacy one is inside the
+ * app's own repository.
+ */
+export function gitEnabled(): boolean {
+  const enabled = process.env.LOCUS_GIT === "1" || readConfig().git?.enabled === true;
+  return enabled && dataDir() !== LEGACY_DATA_DIR;
+}
+
+async function git(dir: string, ...args: string[]): Promise<string> {
+  const { stdout } = await run("git", args, { cwd: dir, maxBuffer: 64 * 1024 * 1024 });
+  return stdout;
+}
+
+/** Make dir a git repository if it isn't one yet */
+async function ensureRepo(dir: string) {
+  if (fs.existsSync(path.join(dir, ".git"))) return;
+  await git(dir, "init", "--quiet");
+  fs.writeFileSync(path.join(dir, ".gitignore"), DATA_GITIGNORE);
+  // Commits must not fail on a machine without a global identity
+  const email = await git(dir, "config", "user.email").catch(() => "");
+  if (!email.trim()) {
+    await git(dir, "config", "user.name", "Locus");
+    await git(dir, "config", "user.email", "locus@localhost");
+  }
+}
+
+function describeChanges(summary: Record<NodeChange, number>): string {
+  const parts = (Object.entries(summary) as [NodeChange, number][])
+    .filter(([, count]) => count > 0)
+    .map(([change, count]) => `${count} ${change}`);
+  return parts.length > 0 ? parts.join(", ") : "formatting only";
+}
+
+/**
+ * Commit message for the changed files: one "doc: 3 added, 1 edited" line
+ * per document, with a short subject when several changed
+ */
+export function commitMessage(
+  changes: { doc: string; before: string | null; after: string | null }[]
+): string {
+  const lines = changes.map(({ doc, before, after }) => {
+    if (after === null) return `${doc}: deleted`;
+    if (before === null) return `${doc}: created`;
+    return `${doc}: ${describeChanges(diffTrees(parseMemo(before), parseMemo(after)).summary)}`;
+  });
+  if (lines.length === 1) return lines[0];
+  return `Update ${changes.map((c) => c.doc).join(", ")}\n\n${lines.join("\n")}`;
+}
+
+/** Commit everything that changed in the data directory. Returns the new commit, if any. */
+export function commitNow(): Promise<string | null> {
+  const dir = dataDir();
+  // One git process at a time per repository, or they trip over index.lock
+  return withWriteLock(path.join(dir, ".git"), async () => {
+    await ensureRepo(dir);
+    await git(dir, "add", "--all");
+    const status = await git(dir, "diff", "--cached", "--name-status", "--no-renames");
+    if (status.trim() === "") return null;
+
+    const changes: { doc: string; before: string | null; after: string | null }[] = [];
+    for (const line of status.split("\n")) {
+      const [state, file] = line.split("\t");
+      if (!file?.endsWith(".cgi")) continue;
+      changes.push({
+        doc: file.slice(0, -".cgi".length),
+        before: state === "A" ? null : await git(dir, "show", `HEAD:${file}`),
+        after: state === "D" ? null : fs.readFileSync(path.join(dir, file), "utf-8"),
+      });
+    }
+    const message = changes.length > 0 ? commitMessage(changes) : "Update data directory";
+    await git(dir, "commit", "--quiet", "-m", message);
+    return (await git(dir, "rev-parse", "HEAD")).trim();
+  });
+}
+
+// Pending commit timer per data directory, shared by every route bundle
+const globalForGit = globalThis as unknown as {
+  locusGitTimers?: Map<string, ReturnType<typeof setTimeout>>;
+};
+const timers = (globalForGit.locusGitTimers ??= new Map());
+
+/** Commit once saves have been quiet for the debounce time */
+export function scheduleCommit() {
+  if (!gitEnabled()) return;
+  const dir = dataDir();
+  const existing = timers.get(dir);
+  if (existing) clearTimeout(existing);
+  const delay = readConfig().git?.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  timers.set(
+    dir,
+    setTimeout(() => {
+      timers.delete(dir);
+      commitNow().catch((error) => console.error("git commit failed:", error));
+    }, delay)
+  );
+}
+
+/** Commit a pending burst right away, e.g. before reading history */
+export async function flushCommit() {
+  const dir = dataDir();
+  const pending = timers.get(dir);
+  if (!pending) return;
+  clearTimeout(pending);
+  timers.delete(dir);
+  await commitNow();
+}
+
+/** Commits that touched doc, newest first */
+export async function history(doc: string, limit = 100): Promise<Commit[]> {
+  const dir = dataDir();
+  if (!fs.existsSync(path.join(dir, ".git"))) return [];
+  const out = await git(
+    dir, "log", `--max-count=${limit}`, "--format=%H%x09%aI%x09%s", "--", `${doc}.cgi`
+  ).catch(() => "");
+  return out
+    .split("\n")
+    .filter((line) => line !== "")
+    .map((line) => {
+      const [hash, date, message] = line.split("\t");
+      return { hash, date, message };
+    });
+}
+
+/** True if name refers to a commit, as "git:<hash>" */
+export function isCommitVersion(name: string): boolean {
+  return /^git:[0-9a-f]{7,40}$/.test(name);
+}
+
+/** Content of doc at a commit ("git:<hash>"), or null if it didn't exist there */
+export async function readAtCommit(doc: string, version: string): Promise<string | null> {
+  const hash = version.slice("git:".length);
+  return git(dataDir(), "show", `${hash}:${doc}.cgi`).catch(() => null);
+}
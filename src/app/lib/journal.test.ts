@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  recordSave, readJournal, stateAt, journalInfo, compactJournal, forgetJournalHeads,
+} from "./journal";
+import { journalPath, writeDoc } from "./memoStore";
+import { serializeMemo } from "./memoCodec";
+import { applyOps, TreeOp } from "./treeOps";
+import { TreeNodeData } from "../components/TreeNode";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-journal-"));
+  process.env.LOCUS_DATA_DIR = dir;
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  delete process.env.LOCUS_DATA_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const tree: TreeNodeData[] = [
+  { id: 1, text: "root", indent: 0, closed: false, children: [] },
+];
+
+/** Save ops at a given time the way the PATCH route does, returning the new content */
+function saveOps(previous: string, nodes: TreeNodeData[], ops: TreeOp[], at: string) {
+  vi.setSystemTime(new Date(at));
+  const content = serializeMemo(applyOps(nodes, ops));
+  recordSave("memo", previous, content, ops);
+  writeDoc("memo", content);
+  return content;
+}
+
+const insert = (id: number, text: string): TreeOp => ({
+  type: "insert", parentId: 1, index: 0,
+  node: { id, text, indent: 1, closed: false, children: [] },
+});
+
+describe("recordSave / stateAt（ジャーナルと時点復元）", () => {
+  it("最初の保存では直前の状態がスナップショットとして記録される", () => {
+    const base = serializeMemo(tree);
+    writeDoc("memo", base);
+    saveOps(base, tree, [insert(2, "a")], "2026-01-01T10:00:00Z");
+    const records = readJournal("memo");
+    expect(records.map((r) => r.type)).toEqual(["snapshot", "ops"]);
+  });
+
+  it("任意の時点の状態を再構築できる", () => {
+    let content = serializeMemo(tree);
+    writeDoc("memo", content);
+    content = saveOps(content, tree, [insert(2, "a")], "2026-01-01T10:00:00Z");
+    const afterA = applyOps(tree, [insert(2, "a")]);
+    saveOps(content, afterA, [{ type: "text", id: 2, text: "b" }], "2026-01-01T11:00:00Z");
+
+    const at1030 = stateAt("memo", Date.parse("2026-01-01T10:30:00Z"))!;
+    expect(at1030.nodes[0].children[0].text).toBe("a");
+    expect(at1030.at).toBe("2026-01-01T10:00:00.000Z");
+    const latest = stateAt("memo", Date.parse("2026-01-02T00:00:00Z"))!;
+    expect(latest.nodes[0].children[0].text).toBe("b");
+  });
+
+  it("記録より前の時点は null になる", () => {
+    vi.setSystemTime(new Date("2026-01-01T10:00:00Z"));
+    recordSave("memo", "root\n", serializeMemo(tree), null);
+    expect(stateAt("memo", Date.parse("2000-01-01T00:00:00Z"))).toBeNull();
+  });
+
+  it("外部で編集されたファイルはスナップショットで記録し直される", () => {
+    let content = serializeMemo(tree);
+    writeDoc("memo", content);
+    content = saveOps(content, tree, [insert(2, "a")], "2026-01-01T10:00:00Z");
+    const edited = "!{format:2}\nroot\n !{id:1}\n hand\n  !{id:5}\n";
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    recordSave("memo", edited, edited.replace("hand", "handmade"), [
+      { type: "text", id: 5, text: "handmade" },
+    ]);
+    expect(readJournal("memo").map((r) => r.type)).toEqual(["snapshot", "ops", "snapshot", "ops"]);
+    const latest = stateAt("memo", Date.now())!;
+    expect(latest.nodes[0].children[0].text).toBe("handmade");
+  });
+});
+
+describe("壊れたジャーナル", () => {
+  it("追記の途中で途切れた最後の行は読み飛ばし、次の保存の前に切り詰める", () => {
+    let content = serializeMemo(tree);
+    writeDoc("memo", content);
+    content = saveOps(content, tree, [insert(2, "a")], "2026-01-01T10:00:00Z");
+    fs.appendFileSync(journalPath("memo"), '{"at":"2026-01-01T10:30:00Z","rev":"x","type":"sna');
+    // As after a restart: the cached head is gone
+    forgetJournalHeads();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(readJournal("memo").map((r) => r.type)).toEqual(["snapshot", "ops"]);
+    const afterA = applyOps(tree, [insert(2, "a")]);
+    saveOps(content, afterA, [{ type: "text", id: 2, text: "b" }], "2026-01-01T11:00:00Z");
+    const lines = fs.readFileSync(journalPath("memo"), "utf-8").split("\n").filter((l) => l);
+    expect(() => lines.forEach((line) => JSON.parse(line))).not.toThrow();
+    expect(readJournal("memo").map((r) => r.type)).toEqual(["snapshot", "ops", "ops"]);
+    expect(stateAt("memo", Date.now())!.nodes[0].children[0].text).toBe("b");
+  });
+
+  it("ジャーナルに書けなくても保存は止めない", () => {
+    fs.mkdirSync(journalPath("memo"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => recordSave("memo", "root\n", serializeMemo(tree), null)).not.toThrow();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe("compactJournal（圧縮）", () => {
+  it("保持期間を過ぎた記録はスナップショットにまとめられる", () => {
+    let content = serializeMemo(tree);
+    writeDoc("memo", content);
+    content = saveOps(content, tree, [insert(2, "old")], "2026-01-01T00:00:00Z");
+    let nodes = applyOps(tree, [insert(2, "old")]);
+    content = saveOps(content, nodes, [insert(3, "older")], "2026-01-02T00:00:00Z");
+    nodes = applyOps(nodes, [insert(3, "older")]);
+    saveOps(content, nodes, [insert(4, "new")], "2026-03-01T00:00:00Z");
+
+    const before = stateAt("memo", Date.now())!.nodes;
+    const dropped = compactJournal("memo", Date.parse("2026-03-01T00:00:00Z"));
+    expect(dropped).toBe(2);
+    const records = readJournal("memo");
+    expect(records.map((r) => r.type)).toEqual(["snapshot", "ops"]);
+    expect(records[0].at).toBe("2026-01-02T00:00:00.000Z");
+    expect(stateAt("memo", Date.now())!.nodes).toEqual(before);
+    expect(journalInfo("memo")!.records).toBe(2);
+  });
+
+  it("ジャーナルがなければ何もしない", () => {
+    expect(compactJournal("memo")).toBe(0);
+    expect(fs.existsSync(journalPath("memo"))).toBe(false);
+  });
+});
@@ -0,0 +1,253 @@
+import fs from "fs";
+import { TreeNodeData } from "../components/TreeNode";
+import { applyOps, TreeOp } from "./treeOps";
+import { parseMemo, serializeMemo } from "./memoCodec";
+import { revisionOf } from "./revision";
+import { writeFileAtomic } from "./fileStore";
+import { docExists, docPath, journalPath } from "./memoStore";
+
+/**
+ * Journal: <doc>.journal.jsonl, one JSON record per save, oldest first.
+ *   snapshot  the whole file content
+ *   ops       the ops applied to the state before it
+ * Every record carries its time, the revision it produced and, when the
+ * client sent one, who made the change. A save whose
+ * starting revision isn't the journal's last one (the file was edited outside
+ * the app) first re-bases the journal with a snapshot.
+ */
+export type JournalRecord = { at: string; rev: string; author?: string } & (
+  | { type: "snapshot"; content: string }
+  | { type: "ops"; ops: TreeOp[] }
+);
+
+/** Compact once the journal grows past this size */
+const JOURNAL_MAX_BYTES = 5 * 1024 * 1024;
+
+/** Compaction drops records older than this */
+const JOURNAL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Revision of each journal's last record, shared by every route bundle
+const globalForJournal = globalThis as unknown as {
+  locusJournalHeads?: Map<string, string>;
+};
+const heads = (globalForJournal.locusJournalHeads ??= new Map());
+
+/** Drop the cached journal heads, after journal files were replaced outside recordSave */
+export function forgetJournalHeads() {
+  heads.clear();
+}
+
+function isRecord(value: unknown): value is JournalRecord {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.at === "string" &&
+    typeof record.rev === "string" &&
+    ((record.type === "snapshot" && typeof record.content === "string") ||
+      (record.type === "ops" && Array.isArray(record.ops)))
+  );
+}
+
+/**
+ * The journal's records. Lines that aren't a whole record are skipped: a
+ * crash mid-append leaves a torn last line, which must not make the journal
+ * (and with it every save) unreadable.
+ */
+export function readJournal(doc: string): JournalRecord[] {
+  const file = journalPath(doc);
+  if (!fs.existsSync(file)) return [];
+  const records: JournalRecord[] = [];
+  fs.readFileSync(file, "utf-8")
+    .split("\n")
+    .forEach((line, i) => {
+      if (line === "") return;
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        record = null;
+      }
+      if (isRecord(record)) records.push(record);
+      else console.warn(`Skipping malformed record on line ${i + 1} of ${file}`);
+    });
+  return records;
+}
+
+/** Cut off a torn last line, so the next append starts on a line of its own */
+function truncateTornRecord(file: string) {
+  if (!fs.existsSync(file)) return;
+  const fd = fs.openSync(file, "r");
+  let torn = false;
+  try {
+    const { size } = fs.fstatSync(fd);
+    if (size > 0) {
+      const last = Buffer.alloc(1);
+      fs.readSync(fd, last, 0, 1, size - 1);
+      torn = last[0] !== 0x0a;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (!torn) return;
+  const content = fs.readFileSync(file);
+  fs.truncateSync(file, content.lastIndexOf(0x0a) + 1);
+}
+
+function lastRevision(doc: string): string | null {
+  const file = journalPath(doc);
+  if (!heads.has(file)) {
+    const records = readJournal(doc);
+    if (records.length === 0) return null;
+    heads.set(file, records[records.length - 1].rev);
+  }
+  return heads.get(file) ?? null;
+}
+
+/**
+ * Record a save that turns previous into next, as ops when given, else as a
+ * snapshot. Call with the write lock held, before writing the document. A
+ * journal that can't be written is logged, never allowed to block the save.
+ */
+export function recordSave(
+  doc: string,
+  previous: string,
+  next: string,
+  ops: TreeOp[] | null,
+  author?: string
+) {
+  const file = journalPath(doc);
+  try {
+    appendSave(doc, previous, next, ops, author);
+  } catch (error) {
+    heads.delete(file);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Journal ${file} not updated: ${message}`);
+  }
+}
+
+function appendSave(
+  doc: string,
+  previous: string,
+  next: string,
+  ops: TreeOp[] | null,
+  author?: string
+) {
+  const now = Date.now();
+  const at = new Date(now).toISOString();
+  const records: JournalRecord[] = [];
+  const previousRev = revisionOf(previous);
+  if (lastRevision(doc) !== previousRev) {
+    // previous has been on disk since the document was last written
+    const since = docExists(doc) ? Math.min(fs.statSync(docPath(doc)).mtimeMs, now) : now;
+    records.push({
+      at: new Date(since).toISOString(),
+      rev: previousRev,
+      type: "snapshot",
+      content: previous,
+    });
+  }
+  const rev = revisionOf(next);
+  const base = author ? { at, rev, author } : { at, rev };
+  records.push(
+    ops ? { ...base, type: "ops", ops } : { ...base, type: "snapshot", content: next }
+  );
+
+  const file = journalPath(doc);
+  truncateTornRecord(file);
+  fs.appendFileSync(file, records.map((r) => JSON.stringify(r) + "\n").join(""), "utf-8");
+  heads.set(file, rev);
+
+  if (fs.statSync(file).size > JOURNAL_MAX_BYTES) compactJournal(doc);
+}
+
+/**
+ * Replay records in order, calling visit with the tree after each one;
+ * throws if an ops record doesn't apply
+ */
+function replay(
+  records: JournalRecord[],
+  visit?: (record: JournalRecord, nodes: TreeNodeData[]) => void
+): TreeNodeData[] | null {
+  let nodes: TreeNodeData[] | null = null;
+  for (const record of records) {
+    if (record.type === "snapshot") {
+      nodes = parseMemo(record.content);
+    } else if (nodes) {
+      try {
+        nodes = applyOps(nodes, record.ops);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Journal record at ${record.at} doesn't apply: ${message}`);
+      }
+    }
+    if (nodes && visit) visit(record, nodes);
+  }
+  return nodes;
+}
+
+/** Walk every state the journal recorded, oldest first */
+export function forEachState(
+  doc: string,
+  visit: (record: JournalRecord, nodes: TreeNodeData[]) => void
+) {
+  replay(readJournal(doc), visit);
+}
+
+/**
+ * The document as it was at time (ms since epoch), with the time of the last
+ * record applied, or null if the journal starts later.
+ */
+export function stateAt(doc: string, time: number): { nodes: TreeNodeData[]; at: string } | null {
+  const records = readJournal(doc).filter((r) => Date.parse(r.at) <= time);
+  const nodes = replay(records);
+  if (!nodes) return null;
+  return { nodes, at: records[records.length - 1].at };
+}
+
+/** Time span and size of the journal, or null if there is none */
+export function journalInfo(
+  doc: string
+): { from: string; to: string; records: number; size: number } | null {
+  const records = readJournal(doc);
+  if (records.length === 0) return null;
+  return {
+    from: records[0].at,
+    to: records[records.length - 1].at,
+    records: records.length,
+    size: fs.statSync(journalPath(doc)).size,
+  };
+}
+
+/**
+ * Fold the oldest records into one snapshot: everything past the retention
+ * period, and more until the file is at most half the size limit. The last
+ * record is always kept. Returns the number of records dropped.
+ */
+export function compactJournal(doc: string, now = Date.now()): number {
+  const records = readJournal(doc);
+  const sizes = records.map((r) => Buffer.byteLength(JSON.stringify(r)) + 1);
+  let size = sizes.reduce((a, b) => a + b, 0);
+  const cutoff = now - JOURNAL_RETENTION_MS;
+
+  // records[keep] becomes the new first record. A record is dropped once the
+  // one after it is also past the cutoff, so the state at the cutoff survives.
+  let keep = 0;
+  while (
+    keep < records.length - 1 &&
+    (Date.parse(records[keep + 1].at) <= cutoff || size > JOURNAL_MAX_BYTES / 2)
+  ) {
+    size -= sizes[keep];
+    keep++;
+  }
+  if (keep === 0) return 0;
+
+  const base = records[keep];
+  const content =
+    base.type === "snapshot"
+      ? base.content
+      : serializeMemo(replay(records.slice(0, keep + 1)) ?? []);
+  const snapshot: JournalRecord = { at: base.at, rev: base.rev, type: "snapshot", content };
+  const kept = [snapshot, ...records.slice(keep + 1)];
+  writeFileAtomic(journalPath(doc), kept.map((r) => JSON.stringify(r) + "\n").join(""));
+  return keep;
+}
@@ -0,0 +1,267 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseMemo, serializeMemo, encodeText, decodeText, memoVersion, MEMO_FORMAT_VERSION, storedIds,
+  memoNextId, withNextId,
+} from "./memoCodec";
+import { nextId } from "./treeUtils";
+import { TreeNodeData } from "../components/TreeNode";
+
+// root
+//   覚書（折り畳み・OL）
+//     1行目\n2行目
+//     前後に空白
+//   タスク
+const testTree: TreeNodeData[] = [
+  {
+    id: 1, text: "root", indent: 0, closed: false, children: [
+      {
+        id: 2, text: "覚書", indent: 1, closed: true, ol: true, children: [
+          { id: 3, text: "1行目\n2行目", indent: 2, closed: false, children: [] },
+          { id: 5, text: "  前後に空白  ", indent: 2, closed: false, children: [] },
+        ],
+      },
+      { id: 4, text: "タスク", indent: 1, closed: false, children: [] },
+    ],
+  },
+];
+
+describe("encodeText / decodeText（エスケープ）", () => {
+  const samples = [
+    "plain",
+    "a b  c",
+    "line1\nline2\n",
+    "100%",
+    "literal %{n} and %{s}",
+    "%{p}",
+    "%",
+    "% {",
+    "!{close}",
+    "!{ref:Entity}",
+    "see !{ref:Entity}",
+    "!{child:Entity:2}",
+    "!not a directive",
+    "\tleading tab",
+    "tab\tinside",
+    "crlf\r\nline",
+    "\r",
+  ];
+
+  it.each(samples)("%j は往復で変わらない", (text) => {
+    expect(decodeText(encodeText(text))).toBe(text);
+  });
+
+  it("空白と改行はエスケープされ、1行に収まる", () => {
+    expect(encodeText("a b\nc")).toBe("a%{s}b%{n}c");
+  });
+
+  it("タブと CR もエスケープされ、字下げや改行と取り違えられない", () => {
+    expect(encodeText("\ta\r\n")).toBe("%{t}a%{r}%{n}");
+  });
+
+  it("先頭の !{ はディレクティブと区別される", () => {
+    expect(encodeText("!{close}")).toBe("%{!}{close}");
+  });
+});
+
+describe("parseMemo / serializeMemo（往復）", () => {
+  it("ツリーは parse → serialize → parse で完全に一致する", () => {
+    const content = serializeMemo(testTree);
+    expect(parseMemo(content)).toEqual(testTree);
+    expect(serializeMemo(parseMemo(content))).toBe(content);
+  });
+
+  it("ディレクティブのように見えるテキストもノードとして残る", () => {
+    const tree: TreeNodeData[] = [
+      {
+        id: 1, text: "root", indent: 0, closed: false, children: [
+          { id: 2, text: "!{close}", indent: 1, closed: false, children: [] },
+          { id: 3, text: "!{ref:Foo}", indent: 1, closed: false, children: [] },
+        ],
+      },
+    ];
+    expect(parseMemo(serializeMemo(tree))).toEqual(tree);
+  });
+
+  it("先頭のタブや CR を含むテキストもノードの中身として往復する", () => {
+    const tree: TreeNodeData[] = [
+      {
+        id: 1, text: "root", indent: 0, closed: false, children: [
+          { id: 2, text: "\tタブ始まり", indent: 1, closed: false, children: [] },
+          { id: 3, text: "CR\rを含む\r\n", indent: 1, closed: false, children: [] },
+        ],
+      },
+    ];
+    expect(parseMemo(serializeMemo(tree))).toEqual(tree);
+  });
+
+  it("先頭にフォーマットバージョンのヘッダが付く", () => {
+    const content = serializeMemo(testTree);
+    expect(content.split("\n")[0]).toBe(`!{format:${MEMO_FORMAT_VERSION}}`);
+    expect(memoVersion(content)).toBe(MEMO_FORMAT_VERSION);
+  });
+
+  it("未知のディレクティブはノードに保持され、そのまま書き戻される", () => {
+    const content =
+      "!{format:2}\n!{nextid:3}\nroot\n !{id:1}\n !{future:some value}\n child\n  !{id:2}\n";
+    const nodes = parseMemo(content);
+    expect(nodes[0].directives).toEqual(["!{future:some value}"]);
+    expect(nodes[0].children[0].text).toBe("child");
+    expect(serializeMemo(nodes)).toBe(content);
+  });
+
+  it("エンティティ名と本文中の参照もそのまま往復する", () => {
+    const content =
+      "!{format:2}\n!{nextid:4}\nroot\n !{id:1}\n 用語集\n  !{id:2}\n  !{entity:用語集}\n" +
+      " %{!}{ref:用語集}%{s}を参照\n  !{id:3}\n";
+    const nodes = parseMemo(content);
+    expect(nodes[0].children[0].entity).toBe("用語集");
+    expect(nodes[0].children[0].directives).toBeUndefined();
+    expect(nodes[0].children[1].text).toBe("!{ref:用語集} を参照");
+    expect(serializeMemo(nodes)).toBe(content);
+  });
+});
+
+describe("!{nextid:N}（IDの最高水位）", () => {
+  // root(1) > a(2), b(3)
+  const tree: TreeNodeData[] = [
+    {
+      id: 1, text: "root", indent: 0, closed: false, children: [
+        { id: 2, text: "a", indent: 1, closed: false, children: [] },
+        { id: 3, text: "b", indent: 1, closed: false, children: [] },
+      ],
+    },
+  ];
+
+  it("最大のIDのノードを消しても、次の新しいIDはそのIDを再利用しない", () => {
+    const saved = serializeMemo(tree);
+    expect(saved.split("\n")[1]).toBe("!{nextid:4}");
+    // Delete "b" (the highest id) and save on top of the stored file
+    const withoutB = [{ ...tree[0], children: [tree[0].children[0]] }];
+    const afterDelete = serializeMemo(withoutB, memoNextId(saved));
+    expect(memoNextId(afterDelete)).toBe(4);
+    expect(nextId(parseMemo(afterDelete), memoNextId(afterDelete))).toBe(4);
+    // Without the stored mark the id of "b" would come back
+    expect(nextId(parseMemo(afterDelete))).toBe(3);
+  });
+
+  it("IDのないノードには印より大きいIDが振られる", () => {
+    const nodes = parseMemo("!{format:2}\n!{nextid:10}\nroot\n !{id:1}\n a\n  !{id:1}\n");
+    expect(nodes[0].children[0].id).toBe(10);
+    expect(parseMemo("root\n a\n", { nextId: 5 }).map((n) => n.id)).toEqual([5]);
+  });
+
+  it("印のない古いファイルでは保存されたIDの最大値の次になる", () => {
+    expect(memoNextId("!{format:2}\nroot\n !{id:1}\n a\n  !{id:7}\n")).toBe(8);
+    expect(memoNextId("root\n a\n")).toBe(1);
+  });
+
+  it("withNextId は印を上げるだけで、下げない", () => {
+    const content = serializeMemo(tree);
+    expect(withNextId(content, 20).split("\n").slice(0, 3)).toEqual([
+      "!{format:2}", "!{nextid:20}", "root",
+    ]);
+    expect(withNextId(content, 2)).toBe(content);
+    const unmarked = "!{format:2}\nroot\n !{id:1}\n";
+    expect(withNextId(unmarked, 5)).toBe("!{format:2}\n!{nextid:5}\nroot\n !{id:1}\n");
+  });
+
+  it("withNextId は旧形式のファイルを印より大きいIDで書き直す", () => {
+    const content = withNextId("root\n a\n", 12);
+    expect(memoVersion(content)).toBe(MEMO_FORMAT_VERSION);
+    expect(parseMemo(content)).toEqual([
+      {
+        id: 12, text: "root", indent: 0, closed: false, children: [
+          { id: 13, text: "a", indent: 1, closed: false, children: [] },
+        ],
+      },
+    ]);
+    expect(memoNextId(content)).toBe(14);
+  });
+});
+
+describe("parseMemo（旧形式の読み込み）", () => {
+  it("ヘッダもIDもないファイルはバージョン1として読める", () => {
+    const content = "root\n child%{s}A\n  !{close}\n  grandchild\n child%{s}B\n  !{ol}\n";
+    expect(memoVersion(content)).toBe(1);
+    const nodes = parseMemo(content);
+    expect(nodes).toHaveLength(1);
+    const [a, b] = nodes[0].children;
+    expect(a.text).toBe("child A");
+    expect(a.closed).toBe(true);
+    expect(a.children[0].text).toBe("grandchild");
+    expect(b.ol).toBe(true);
+  });
+
+  it("IDのないノードには既存IDと重ならない新しいIDが振られる", () => {
+    const content = "root\n !{id:7}\n a\n b\n  !{id:3}\n";
+    const nodes = parseMemo(content);
+    expect(nodes[0].id).toBe(7);
+    expect(nodes[0].children.map((n) => n.id)).toEqual([8, 3]);
+  });
+
+  it("重複したIDは後のノードが振り直される", () => {
+    const content = "root\n !{id:1}\n a\n  !{id:1}\n";
+    const nodes = parseMemo(content);
+    expect(nodes[0].id).toBe(1);
+    expect(nodes[0].children[0].id).toBe(2);
+  });
+
+  it("storedIds はファイルに書かれたIDだけを返す", () => {
+    expect([...storedIds("root\n !{id:7}\n a\n b\n  !{id:3}\n")]).toEqual([7, 3]);
+    expect(storedIds("root\n a\n").size).toBe(0);
+    expect(storedIds(serializeMemo(testTree))).toEqual(new Set([1, 2, 3, 5, 4]));
+  });
+
+  it("!{format:1} のヘッダはノードにならない", () => {
+    const content = "!{format:1}\nroot\n child\n";
+    expect(memoVersion(content)).toBe(1);
+    const nodes = parseMemo(content);
+    expect(nodes.map((n) => n.text)).toEqual(["root"]);
+    expect(nodes[0].children.map((n) => n.text)).toEqual(["child"]);
+  });
+
+  it("バージョン1では未知の !{...} 行はテキストとして扱われる", () => {
+    const nodes = parseMemo("root\n !{ref:Foo}\n");
+    expect(nodes[0].children[0].text).toBe("!{ref:Foo}");
+    expect(nodes[0].directives).toBeUndefined();
+  });
+
+  it("CRLF の改行も読める", () => {
+    const nodes = parseMemo("root\r\n child\r\n");
+    expect(nodes[0].children[0].text).toBe("child");
+  });
+
+  it("空のファイルは空のツリーになる", () => {
+    expect(parseMemo("")).toEqual([]);
+  });
+});
+
+describe("parseMemo（不整合の報告と孤立ノードの付け替え）", () => {
+  // "c" and "d" jump two levels below "a"
+  const content = "root\n a\n   c\n    d\n b\n";
+
+  it("深すぎるノードは行番号付きで報告され、既定では読み飛ばされる", () => {
+    const issues: { kind: string; line: number }[] = [];
+    const nodes = parseMemo(content, { onIssue: ({ kind, line }) => issues.push({ kind, line }) });
+    expect(nodes[0].children.map((n) => n.text)).toEqual(["a", "b"]);
+    expect(issues).toEqual([
+      { kind: "orphan", line: 3 },
+      { kind: "orphan", line: 4 },
+    ]);
+  });
+
+  it("reparentOrphans では直前の浅いノードの子として残る", () => {
+    const nodes = parseMemo(content, { reparentOrphans: true });
+    const [a, b] = nodes[0].children;
+    expect(a.children[0].text).toBe("c");
+    expect(a.children[0].indent).toBe(2);
+    expect(a.children[0].children[0].text).toBe("d");
+    expect(b.text).toBe("b");
+  });
+
+  it("最初のノードより前のディレクティブと重複IDも報告される", () => {
+    const kinds: string[] = [];
+    parseMemo("!{close}\nroot\n !{id:1}\n a\n  !{id:1}\n", { onIssue: ({ kind }) => kinds.push(kind) });
+    expect(kinds).toEqual(["stray-directive", "duplicate-id"]);
+  });
+});
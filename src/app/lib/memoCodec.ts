@@ -0,0 +1,380 @@
+import { TreeNodeData } from "../components/TreeNode";
+import { isValidEntityName } from "./entities";
+import { nextId } from "./treeUtils";
+
+/**
+ * memo.cgi format
+ *
+ * One node per line; leading spaces give the depth. Node text is escaped:
+ *   %{n} newline, %{s} space, %{t} tab, %{r} carriage return,
+ *   %{p} a "%" that starts a "%{" sequence,
+ *   %{!} a "!" that would otherwise start a directive.
+ * Lines of the form !{name} or !{name:value} are directives and apply to the
+ * node above them:
+ *   !{id:N}   persistent node id
+ *   !{close}  node is collapsed
+ *   !{ol}     children are an ordered list
+ *   !{entity:Name}  node can be referred to as Name (see entities.ts)
+ * An optional first line !{format:N} declares the format version; it is never
+ * a node, whatever N is. From version 2 on it is followed by !{nextid:N}, the
+ * id the next new node gets: it only goes up, so the id of a deleted node is
+ * never handed out again. Files without a header are version 1, where only the directives above are recognized
+ * and anything else is text. From version 2 on, text never starts with "!{"
+ * (it is escaped), so unknown directives are kept on the node as-is and
+ * written back unchanged — newer files survive a round trip through an
+ * older reader.
+ */
+export const MEMO_FORMAT_VERSION = 2;
+
+const DIRECTIVE = /^!\{([A-Za-z][\w-]*)(?::(.*))?\}$/;
+
+/** Name and value of a directive line (already trimmed), or null if it isn't one */
+export function parseDirective(line: string): { name: string; value?: string } | null {
+  const match = line.match(DIRECTIVE);
+  return match ? { name: match[1], value: match[2] } : null;
+}
+const FORMAT_HEADER = /^!\{format:(\d+)\}$/;
+const NEXT_ID_HEADER = /^!\{nextid:(\d+)\}$/;
+
+/** Directives the codec reads into node fields itself */
+const BUILTIN_DIRECTIVES = new Set(["format", "nextid", "id", "close", "ol", "entity"]);
+
+/** True if line can be kept in TreeNodeData.directives and survive a round trip */
+export function isPreservedDirective(line: string): boolean {
+  const match = line.match(DIRECTIVE);
+  return match !== null && !BUILTIN_DIRECTIVES.has(match[1]);
+}
+
+export function encodeText(text: string): string {
+  return text
+    .replace(/%\{/g, "%{p}{")
+    .replace(/ /g, "%{s}")
+    .replace(/\n/g, "%{n}")
+    .replace(/\t/g, "%{t}")
+    .replace(/\r/g, "%{r}")
+    .replace(/^!\{/, "%{!}{");
+}
+
+const ESCAPES: Record<string, string> = { n: "\n", s: " ", t: "\t", r: "\r", p: "%", "!": "!" };
+
+export function decodeText(text: string): string {
+  return text.replace(/%\{([nstrp!])\}/g, (_, key: string) => ESCAPES[key]);
+}
+
+function fileLines(content: string): string[] {
+  return content.replace(/\r/g, "").split("\n");
+}
+
+/** Format version declared by the header line, or 1 if there is none */
+export function memoVersion(content: string): number {
+  const first = fileLines(content).find((line) => line !== "");
+  const match = first?.trim().match(FORMAT_HEADER);
+  return match ? Number(match[1]) : 1;
+}
+
+/** The header lines: where they end (blank lines included) and the !{nextid:N} value, if any */
+function readHeader(content: string): { length: number; nextId: number | null } {
+  const lines = fileLines(content);
+  const format = lines.findIndex((line) => line !== "");
+  if (format < 0 || !FORMAT_HEADER.test(lines[format].trim())) return { length: 0, nextId: null };
+  const next = lines.findIndex((line, i) => i > format && line !== "");
+  const match = next >= 0 ? lines[next].trim().match(NEXT_ID_HEADER) : null;
+  return match ? { length: next + 1, nextId: Number(match[1]) } : { length: format + 1, nextId: null };
+}
+
+/** Number of lines at the top of the file, blank ones included, that are header rather than nodes */
+export function headerLength(content: string): number {
+  return readHeader(content).length;
+}
+
+type FlatNode = {
+  /** 1-based line number in the file */
+  line: number;
+  id: number | null;
+  text: string;
+  indent: number;
+  closed: boolean;
+  ol: boolean;
+  entity?: string;
+  directives: string[];
+};
+
+/**
+ * Something parseMemo had to work around:
+ *   orphan          node indented more than one level below the node above it;
+ *                   dropped with its subtree unless reparentOrphans is set
+ *   stray-directive directive line before the first node, ignored
+ *   duplicate-id    id already used by an earlier node, replaced by a new one
+ */
+export type ParseIssue = {
+  kind: "orphan" | "stray-directive" | "duplicate-id";
+  line: number;
+  text: string;
+};
+
+export type ParseOptions = {
+  /** Attach orphans to the nearest node above them with a smaller indent instead of dropping them */
+  reparentOrphans?: boolean;
+  /** Lowest id for nodes the file carries none for (the file's own mark is used if higher) */
+  nextId?: number;
+  onIssue?: (issue: ParseIssue) => void;
+};
+
+/**
+ * Give every node without a persisted id (files written before ids were
+ * stored, or duplicated ids from hand edits) a fresh one above the current
+ * max and at least floor.
+ */
+function assignMissingIds<T extends { id: number | null; line: number; text: string }>(
+  nodes: T[],
+  floor: number,
+  onIssue?: (issue: ParseIssue) => void
+): (T & { id: number })[] {
+  const seen = new Set<number>();
+  let max = floor - 1;
+  for (const node of nodes) {
+    if (node.id === null) continue;
+    if (seen.has(node.id)) {
+      onIssue?.({ kind: "duplicate-id", line: node.line, text: node.text });
+      node.id = null;
+      continue;
+    }
+    seen.add(node.id);
+    if (node.id > max) max = node.id;
+  }
+  for (const node of nodes) {
+    if (node.id === null) node.id = ++max;
+  }
+  return nodes as (T & { id: number })[];
+}
+
+const ID_LINE = /^\s*!\{id:(\d+)\}\s*$/;
+
+/**
+ * Ids the file itself carries as !{id:N}. parseMemo numbers the other nodes
+ * by position, so those ids say nothing about identity across versions; an
+ * empty set means a file from before ids were stored.
+ */
+export function storedIds(content: string): Set<number> {
+  const ids = new Set<number>();
+  for (const line of content.split("\n")) {
+    const match = line.match(ID_LINE);
+    if (match) ids.add(Number(match[1]));
+  }
+  return ids;
+}
+
+/**
+ * The id the next new node of this file gets: its !{nextid:N} mark, and in
+ * any case above every id the file carries
+ */
+export function memoNextId(content: string): number {
+  let next = readHeader(content).nextId ?? 1;
+  for (const id of storedIds(content)) next = Math.max(next, id + 1);
+  return next;
+}
+
+/**
+ * content with its !{nextid:N} mark raised to at least next, for writing an
+ * older version (a backup being restored) back over a newer one without
+ * handing out ids used since. A version 1 file has no header to carry the
+ * mark, so it is rewritten in the current format, its nodes numbered above
+ * next and irregular indentation re-parented rather than dropped.
+ */
+export function withNextId(content: string, next: number): string {
+  if (memoVersion(content) === 1) {
+    return serializeMemo(parseMemo(content, { reparentOrphans: true, nextId: next }), next);
+  }
+  const { length, nextId: mark } = readHeader(content);
+  const lines = fileLines(content);
+  const header = `!{nextid:${Math.max(next, memoNextId(content))}}`;
+  if (mark === null) lines.splice(length, 0, header);
+  else lines[length - 1] = header;
+  return lines.join("\n");
+}
+
+function toTreeNode(node: FlatNode & { id: number }, children: TreeNodeData[]): TreeNodeData {
+  const treeNode: TreeNodeData = {
+    id: node.id,
+    text: node.text,
+    indent: node.indent,
+    closed: node.closed,
+    children,
+  };
+  if (node.ol) treeNode.ol = true;
+  if (node.entity !== undefined) treeNode.entity = node.entity;
+  if (node.directives.length > 0) treeNode.directives = node.directives;
+  return treeNode;
+}
+
+export function parseMemo(content: string, options: ParseOptions = {}): TreeNodeData[] {
+  const { onIssue } = options;
+  // Keep line numbers of the file as written, blank lines included
+  const header = headerLength(content);
+  const lines = fileLines(content)
+    .map((text, i) => ({ text, line: i + 1 }))
+    .filter(({ text, line }) => text !== "" && line > header);
+  const version = memoVersion(content);
+
+  const nodes: FlatNode[] = [];
+
+  for (const { text: line, line: lineNumber } of lines) {
+    const trimmed = line.trimStart();
+    const directive = trimmed.match(DIRECTIVE);
+
+    if (directive) {
+      const [, name, value] = directive;
+      const prev = nodes.length > 0 ? nodes[nodes.length - 1] : null;
+      const known =
+        name === "close" ||
+        name === "ol" ||
+        (name === "id" && value !== undefined && /^\d+$/.test(value)) ||
+        (name === "entity" && value !== undefined && isValidEntityName(value));
+      if ((known || version > 1) && !prev) {
+        onIssue?.({ kind: "stray-directive", line: lineNumber, text: trimmed });
+        continue;
+      }
+      if (name === "close") {
+        if (prev) prev.closed = true;
+        continue;
+      }
+      if (name === "ol") {
+        if (prev) prev.ol = true;
+        continue;
+      }
+      if (name === "id" && value !== undefined && /^\d+$/.test(value)) {
+        if (prev) prev.id = Number(value);
+        continue;
+      }
+      if (name === "entity" && known) {
+        if (prev) prev.entity = value;
+        continue;
+      }
+      if (version > 1) {
+        if (prev) prev.directives.push(trimmed);
+        continue;
+      }
+      // Version 1: not a directive we know, so it's node text
+    }
+
+    nodes.push({
+      line: lineNumber,
+      id: null,
+      text: decodeText(trimmed),
+      indent: line.length - trimmed.length,
+      closed: false,
+      ol: false,
+      directives: [],
+    });
+  }
+
+  if (nodes.length === 0) return [];
+  const floor = Math.max(options.nextId ?? 1, readHeader(content).nextId ?? 1);
+  const flat = assignMissingIds(nodes, floor, onIssue);
+  return options.reparentOrphans ? buildByNearestParent(flat) : buildStrict(flat, onIssue);
+}
+
+/**
+ * Nest nodes by indent, one level at a time. A node more than one level
+ * deeper than its parent is dropped along with its subtree.
+ */
+function buildStrict(
+  flat: (FlatNode & { id: number })[],
+  onIssue?: (issue: ParseIssue) => void
+): TreeNodeData[] {
+  const orphan = (node: FlatNode) =>
+    onIssue?.({ kind: "orphan", line: node.line, text: node.text });
+
+  function buildTree(
+    startIndex: number,
+    parentIndent: number
+  ): { children: TreeNodeData[]; nextIndex: number } {
+    const children: TreeNodeData[] = [];
+    let i = startIndex;
+    while (i < flat.length) {
+      const node = flat[i];
+      if (node.indent <= parentIndent) break;
+      if (node.indent === parentIndent + 1) {
+        const { children: subChildren, nextIndex } = buildTree(i + 1, node.indent);
+        children.push(toTreeNode(node, subChildren));
+        i = nextIndex;
+      } else {
+        // Deeper than expected — belongs to previous sibling's subtree
+        orphan(node);
+        i++;
+      }
+    }
+    return { children, nextIndex: i };
+  }
+
+  // Build full tree supporting multiple root-level nodes
+  const minIndent = Math.min(...flat.map((n) => n.indent));
+  const result: TreeNodeData[] = [];
+  let i = 0;
+  while (i < flat.length) {
+    const node = flat[i];
+    if (node.indent === minIndent) {
+      const { children, nextIndex } = buildTree(i + 1, node.indent);
+      result.push(toTreeNode(node, children));
+      i = nextIndex;
+    } else {
+      orphan(node);
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Nest every node under the nearest node above it with a smaller indent, so
+ * irregular indentation keeps the shape it was meant to have and loses nothing
+ */
+function buildByNearestParent(flat: (FlatNode & { id: number })[]): TreeNodeData[] {
+  const result: TreeNodeData[] = [];
+  const stack: { indent: number; node: TreeNodeData }[] = [];
+  for (const node of flat) {
+    while (stack.length > 0 && stack[stack.length - 1].indent >= node.indent) stack.pop();
+    const treeNode = toTreeNode({ ...node, indent: stack.length }, []);
+    const parent = stack[stack.length - 1];
+    (parent ? parent.node.children : result).push(treeNode);
+    stack.push({ indent: node.indent, node: treeNode });
+  }
+  return result;
+}
+
+function serializeNodes(nodes: TreeNodeData[], indent: number): string {
+  let result = "";
+  for (const node of nodes) {
+    const prefix = " ".repeat(indent);
+    result += prefix + encodeText(node.text) + "\n";
+    result += prefix + ` !{id:${node.id}}\n`;
+    if (node.closed) {
+      result += prefix + " !{close}\n";
+    }
+    if (node.ol) {
+      result += prefix + " !{ol}\n";
+    }
+    if (node.entity !== undefined) {
+      result += prefix + ` !{entity:${node.entity}}\n`;
+    }
+    for (const directive of node.directives ?? []) {
+      result += prefix + " " + directive + "\n";
+    }
+    if (node.children.length > 0) {
+      result += serializeNodes(node.children, indent + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Serialize a tree as memo.cgi content in the current format version. The
+ * !{nextid:N} mark is the higher of next (the stored file's memoNextId) and
+ * the ids in the tree.
+ */
+export function serializeMemo(nodes: TreeNodeData[], next = 1): string {
+  return (
+    `!{format:${MEMO_FORMAT_VERSION}}\n!{nextid:${nextId(nodes, next)}}\n` +
+    serializeNodes(nodes, 0)
+  );
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { checkMemo, repairMemo } from "./memoIntegrity";
+import { parseMemo } from "./memoCodec";
+
+describe("checkMemo（整合性チェック）", () => {
+  it("正常なファイルには問題がない", () => {
+    expect(checkMemo("!{format:2}\nroot\n !{id:1}\n a\n  !{id:2}\n  !{close}\n")).toEqual([]);
+    expect(checkMemo("!{format:2}\n!{nextid:9}\nroot\n !{id:1}\n")).toEqual([]);
+  });
+
+  it("すべての問題を行番号順に報告する", () => {
+    const content = "!{ol}\nroot\n a\n    deep\n  !{clsoe}\n !{id:x}\n";
+    expect(checkMemo(content).map((a) => [a.line, a.kind, a.severity])).toEqual([
+      [1, "stray-directive", "warning"],
+      [4, "orphan", "error"],
+      [5, "directive-typo", "warning"],
+      [6, "invalid-id", "warning"],
+    ]);
+  });
+
+  it("バージョン2では閉じ括弧の抜けや大文字の違いも綴り誤りとして扱う", () => {
+    const content = "!{format:2}\nroot\n !{id:1}\n !{Close}\n a\n  !{id:2}\n  !{ol\n";
+    expect(checkMemo(content).map((a) => [a.line, a.fix])).toEqual([
+      [4, " !{close}"],
+      [7, "  !{ol}"],
+    ]);
+  });
+
+  it("未知のディレクティブは問題にしない", () => {
+    expect(checkMemo("!{format:2}\nroot\n !{id:1}\n !{future:Foo}\n")).toEqual([]);
+  });
+
+  it("エンティティ名の誤りと綴り誤りを報告する", () => {
+    const content = "!{format:2}\nroot\n !{id:1}\n !{entity:a b}\n a\n  !{id:2}\n  !{entiy:用語}\n";
+    expect(checkMemo(content).map((a) => [a.line, a.kind, a.fix])).toEqual([
+      [4, "invalid-entity", ""],
+      [7, "directive-typo", "  !{entity:用語}"],
+    ]);
+  });
+});
+
+describe("repairMemo（自動修復）", () => {
+  it("孤立ノードを付け替え、綴り誤りを直す", () => {
+    const { nodes, anomalies, content } = repairMemo("root\n a\n  !{clsoe}\n    deep\n b\n");
+    expect(anomalies).toHaveLength(2);
+    const [a, b] = nodes[0].children;
+    expect(a.closed).toBe(true);
+    expect(a.children[0].text).toBe("deep");
+    expect(b.text).toBe("b");
+    // The repaired file reads back the same and has nothing left to fix
+    expect(parseMemo(content)).toEqual(nodes);
+    expect(checkMemo(content)).toEqual([]);
+  });
+});
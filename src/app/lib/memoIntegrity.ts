@@ -0,0 +1,154 @@
+import { TreeNodeData } from "../components/TreeNode";
+import { isValidEntityName } from "./entities";
+import { headerLength, parseDirective, parseMemo, ParseIssue, serializeMemo } from "./memoCodec";
+
+export type AnomalyKind =
+  | ParseIssue["kind"]
+  | "directive-typo"
+  | "invalid-id"
+  | "invalid-entity";
+
+/**
+ * A problem in a memo file, by 1-based line number. Errors lose data on the
+ * next save (the parsed tree doesn't contain the line); warnings don't.
+ */
+export type MemoAnomaly = {
+  kind: AnomalyKind;
+  line: number;
+  severity: "error" | "warning";
+  message: string;
+  /** Replacement for the line that repair writes */
+  fix?: string;
+};
+
+/** Directives the codec understands, which typos are matched against */
+const KNOWN_DIRECTIVES = ["close", "ol", "id", "entity"];
+
+/** Edit distance counting a swap of neighbours as one edit; for short directive names */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+/** The known directive a name was probably meant to be, if it's close to one */
+function intendedDirective(name: string): string | null {
+  const lower = name.toLowerCase();
+  for (const known of KNOWN_DIRECTIVES) {
+    if (lower === known) return known;
+    // Short names are too easy to hit by accident
+    if (known.length >= 4 && editDistance(lower, known) === 1) return known;
+  }
+  return null;
+}
+
+/** Directive-level problems the parser doesn't notice: typos and bad ids */
+function checkDirectiveLine(line: string, lineNumber: number): MemoAnomaly | null {
+  const trimmed = line.trimStart();
+  if (!trimmed.startsWith("!{")) return null;
+  const indent = line.slice(0, line.length - trimmed.length);
+  const directive = parseDirective(trimmed);
+
+  if (directive?.name === "id") {
+    if (directive.value !== undefined && /^\d+$/.test(directive.value)) return null;
+    return {
+      kind: "invalid-id",
+      line: lineNumber,
+      severity: "warning",
+      message: `"${trimmed}" is not a valid node id and is not applied`,
+      fix: "",
+    };
+  }
+  if (directive?.name === "entity") {
+    if (directive.value !== undefined && isValidEntityName(directive.value)) return null;
+    return {
+      kind: "invalid-entity",
+      line: lineNumber,
+      severity: "warning",
+      message: `"${trimmed}" is not a valid entity name (no spaces, braces or ":") and is not applied`,
+      fix: "",
+    };
+  }
+  if (directive && KNOWN_DIRECTIVES.includes(directive.name)) return null;
+
+  // Also catch a missing "}" or stray spaces: "!{close", "!{ close}"
+  const name = trimmed.match(/^!\{\s*([A-Za-z]+)/)?.[1];
+  const intended = name ? intendedDirective(name) : null;
+  if (!intended) return null;
+  const value = trimmed.match(/:\s*([^\s{}:]+)\s*\}?$/)?.[1];
+  let fixed = `!{${intended}}`;
+  if (intended === "id") fixed = value && /^\d+$/.test(value) ? `!{id:${value}}` : "";
+  if (intended === "entity") fixed = value && isValidEntityName(value) ? `!{entity:${value}}` : "";
+  return {
+    kind: "directive-typo",
+    line: lineNumber,
+    severity: "warning",
+    message: fixed
+      ? `"${trimmed}" looks like a misspelled ${fixed} and is not applied`
+      : `"${trimmed}" looks like a misspelled ${intended} directive without a valid value`,
+    fix: fixed && indent + fixed,
+  };
+}
+
+const ISSUE_MESSAGES: Record<ParseIssue["kind"], string> = {
+  orphan: "Indented more than one level below the node above it; dropped on load",
+  "stray-directive": "Directive before the first node; ignored",
+  "duplicate-id": "Node id already used above; a new id is assigned",
+};
+
+/** Every anomaly in a memo file, in line order */
+export function checkMemo(content: string): MemoAnomaly[] {
+  const anomalies: MemoAnomaly[] = [];
+  parseMemo(content, {
+    onIssue: (issue) =>
+      anomalies.push({
+        kind: issue.kind,
+        line: issue.line,
+        severity: issue.kind === "orphan" ? "error" : "warning",
+        message: ISSUE_MESSAGES[issue.kind],
+      }),
+  });
+
+  const lines = content.replace(/\r/g, "").split("\n");
+  const start = headerLength(content);
+  lines.forEach((line, i) => {
+    if (i < start) return;
+    const anomaly = checkDirectiveLine(line, i + 1);
+    // A typo before the first node is already reported as a stray directive
+    if (anomaly && !anomalies.some((a) => a.line === anomaly.line)) anomalies.push(anomaly);
+  });
+  return anomalies.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Fix what can be fixed: correct misspelled directives, drop invalid ids and
+ * re-parent orphans instead of dropping them. Returns the repaired file,
+ * its tree and the anomalies that were found.
+ */
+export function repairMemo(content: string): {
+  content: string;
+  nodes: TreeNodeData[];
+  anomalies: MemoAnomaly[];
+} {
+  const anomalies = checkMemo(content);
+  const fixes = new Map(
+    anomalies.filter((a) => a.fix !== undefined).map((a) => [a.line, a.fix as string])
+  );
+  const fixed = content
+    .replace(/\r/g, "")
+    .split("\n")
+    .map((line, i) => fixes.get(i + 1) ?? line)
+    .join("\n");
+  const nodes = parseMemo(fixed, { reparentOrphans: true });
+  return { content: serializeMemo(nodes), nodes, anomalies };
+}
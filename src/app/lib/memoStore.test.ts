@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  LEGACY_DATA_DIR, resolveDataDir, migrateLegacyData, dataDir,
+  readDoc, writeDoc, rotateBackups, listDocs, renameDoc, deleteDoc, pinBackup, backupKind,
+  pruneBackups, MAX_PINNED_BACKUPS,
+} from "./memoStore";
+import { DEFAULT_RETENTION } from "./retention";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-memostore-"));
+  process.env.LOCUS_DATA_DIR = path.join(dir, "data");
+});
+
+afterEach(() => {
+  delete process.env.LOCUS_DATA_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("resolveDataDir（データディレクトリの解決）", () => {
+  it("環境変数 LOCUS_DATA_DIR が優先される", () => {
+    expect(resolveDataDir()).toBe(path.join(dir, "data"));
+  });
+
+  it("相対パスは作業ディレクトリからの相対になる", () => {
+    process.env.LOCUS_DATA_DIR = "var/locus";
+    expect(resolveDataDir()).toBe(path.join(process.cwd(), "var", "locus"));
+  });
+
+  it("設定がなければ従来の場所になる", () => {
+    delete process.env.LOCUS_DATA_DIR;
+    expect(resolveDataDir()).toBe(LEGACY_DATA_DIR);
+  });
+});
+
+describe("migrateLegacyData（旧ディレクトリからの移行）", () => {
+  it("ドキュメントとバックアップだけを移動し、既存のファイルは上書きしない", () => {
+    const from = path.join(dir, "legacy");
+    const to = path.join(dir, "new");
+    fs.mkdirSync(from);
+    fs.mkdirSync(to);
+    for (const f of ["memo.cgi", "memo_01.cgi", "memo_weekly_2026-01-05.cgi", "route.ts"]) {
+      fs.writeFileSync(path.join(from, f), f);
+    }
+    fs.writeFileSync(path.join(to, "memo_01.cgi"), "newer");
+
+    const moved = migrateLegacyData(from, to);
+    expect(moved.sort()).toEqual(["memo.cgi", "memo_weekly_2026-01-05.cgi"]);
+    expect(fs.readdirSync(from).sort()).toEqual(["memo_01.cgi", "route.ts"]);
+    expect(fs.readFileSync(path.join(to, "memo_01.cgi"), "utf-8")).toBe("newer");
+    expect(fs.readFileSync(path.join(to, "memo.cgi"), "utf-8")).toBe("memo.cgi");
+  });
+
+  it("同じディレクトリなら何もしない", () => {
+    expect(migrateLegacyData(dir, dir)).toEqual([]);
+  });
+});
+
+describe("backupKind（バックアップ名の判定）", () => {
+  it("ローテーション・週次・固定のバックアップを区別する", () => {
+    expect(backupKind("memo", "memo_03.cgi")).toBe("rotating");
+    expect(backupKind("memo", "memo_weekly_2026-01-05.cgi")).toBe("weekly");
+    expect(backupKind("memo", "memo_pinned_2026-01-05T10-00-00-000Z.cgi")).toBe("pinned");
+  });
+
+  it("他のドキュメントや不正な名前は null になる", () => {
+    for (const name of [
+      "memo.cgi",
+      "work_01.cgi",
+      "memo_weekly_2026-01-05.cgi.bak",
+      "memo_weekly_../../etc.cgi",
+      "memo_01/../../memo.cgi",
+      "memo_latest.cgi",
+    ]) {
+      expect(backupKind("memo", name)).toBeNull();
+    }
+  });
+});
+
+describe("ドキュメントの操作", () => {
+  it("初回の読み込みでディレクトリとドキュメントが作られる", () => {
+    expect(readDoc("memo")).toBe("root\n");
+    expect(fs.readdirSync(dataDir())).toEqual(["memo.cgi"]);
+  });
+
+  it("名前変更はバックアップも一緒に移動する", () => {
+    writeDoc("work", "root\n");
+    rotateBackups("work");
+    renameDoc("work", "notes");
+    const names = listDocs().map((d) => d.name);
+    expect(names).toEqual(["memo", "notes"]);
+    expect(fs.readdirSync(dataDir()).sort()).toEqual(["memo.cgi", "notes.cgi", "notes_01.cgi"]);
+  });
+
+  it("固定バックアップはローテーションで消えない", () => {
+    writeDoc("memo", "root\n pinned\n");
+    const name = pinBackup("memo");
+    expect(name).toMatch(/^memo_pinned_.+\.cgi$/);
+    for (let i = 0; i < 12; i++) rotateBackups("memo");
+    expect(fs.readFileSync(path.join(dataDir(), name), "utf-8")).toBe("root\n pinned\n");
+  });
+
+  it("同じ内容は固定し直さず、固定バックアップは上限を超えると古いものから消える", () => {
+    vi.useFakeTimers();
+    try {
+      const pinned = () => fs.readdirSync(dataDir()).filter((f) => backupKind("memo", f) === "pinned");
+      writeDoc("memo", "root\n same\n");
+      const first = pinBackup("memo");
+      vi.advanceTimersByTime(1000);
+      expect(pinBackup("memo")).toBe(first);
+      expect(pinned()).toEqual([first]);
+
+      for (let i = 0; i < MAX_PINNED_BACKUPS + 5; i++) {
+        vi.advanceTimersByTime(1000);
+        writeDoc("memo", `root\n version ${i}\n`);
+        pinBackup("memo");
+      }
+      expect(pinned()).toHaveLength(MAX_PINNED_BACKUPS);
+      expect(pinned()).not.toContain(first);
+      const newest = pinned().sort().at(-1) as string;
+      expect(fs.readFileSync(path.join(dataDir(), newest), "utf-8")).toBe(
+        `root\n version ${MAX_PINNED_BACKUPS + 4}\n`
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("削除すると trash に移動される", () => {
+    writeDoc("work", "root\n");
+    deleteDoc("work");
+    expect(listDocs().map((d) => d.name)).toEqual(["memo"]);
+    const [trashed] = fs.readdirSync(path.join(dataDir(), "trash"));
+    expect(fs.readdirSync(path.join(dataDir(), "trash", trashed))).toEqual(["work.cgi"]);
+  });
+});
+
+describe("pruneBackups（保持ポリシーによる削除）", () => {
+  /** Write a backup file with its mtime set to iso */
+  function backup(name: string, iso: string) {
+    const file = path.join(dataDir(), name);
+    fs.writeFileSync(file, "root\n");
+    const time = new Date(iso);
+    fs.utimesSync(file, time, time);
+  }
+
+  const policy = { ...DEFAULT_RETENTION, recent: 2, hourly: 0, daily: 0, weekly: 0 };
+
+  it("ドライランでは何も削除しない", () => {
+    readDoc("memo");
+    backup("memo_weekly_2020-01-06.cgi", "2020-01-06T00:00:00Z");
+    const plan = pruneBackups("memo", true, { ...policy, recent: 0 }, false);
+    expect(plan.remove).toEqual(["memo_weekly_2020-01-06.cgi"]);
+    expect(fs.existsSync(path.join(dataDir(), "memo_weekly_2020-01-06.cgi"))).toBe(true);
+  });
+
+  it("保持ポリシーが未設定なら週次バックアップは削除しない", () => {
+    writeDoc("memo", "root\n");
+    const weekly: string[] = [];
+    for (let i = 0; i < 100; i++) {
+      const monday = new Date(Date.UTC(2020, 0, 6 + i * 7)).toISOString();
+      const name = `memo_weekly_${monday.slice(0, 10)}.cgi`;
+      backup(name, monday);
+      weekly.push(name);
+    }
+    rotateBackups("memo");
+    expect(pruneBackups("memo", true).remove).toEqual([]);
+    const left = fs.readdirSync(dataDir()).filter((f) => f.startsWith("memo_weekly_"));
+    expect(left.sort()).toEqual(weekly);
+  });
+
+  it("古いバックアップを削除し、残ったローテーションを _01 から詰め直す", () => {
+    readDoc("memo");
+    backup("memo_01.cgi", "2020-01-03T00:00:00Z");
+    backup("memo_02.cgi", "2020-01-01T00:00:00Z");
+    backup("memo_03.cgi", "2020-01-02T00:00:00Z");
+    backup("memo_pinned_2020-01-01T00-00-00-000Z.cgi", "2020-01-01T00:00:00Z");
+    expect(pruneBackups("memo", false, policy).remove).toEqual(["memo_02.cgi"]);
+    expect(fs.readdirSync(dataDir()).sort()).toEqual([
+      "memo.cgi",
+      "memo_01.cgi",
+      "memo_02.cgi",
+      "memo_pinned_2020-01-01T00-00-00-000Z.cgi",
+    ]);
+    // memo_03.cgi moved down into the gap
+    expect(fs.statSync(path.join(dataDir(), "memo_02.cgi")).mtime.toISOString()).toBe(
+      "2020-01-02T00:00:00.000Z"
+    );
+  });
+});
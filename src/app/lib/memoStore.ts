@@ -0,0 +1,318 @@
+import fs from "fs";
+import path from "path";
+import { writeFileAtomic } from "./fileStore";
+import { readConfig, CONFIG_FILE } from "./config";
+import { planRetention, resolveRetention, RetentionPlan, RetentionPolicy } from "./retention";
+import { TreeValidationError } from "./treeValidation";
+
+/** Where data lived before the directory was configurable, inside the app source */
+export const LEGACY_DATA_DIR = path.join(process.cwd(), "src", "app", "api", "tree");
+
+/** Configured data directory: LOCUS_DATA_DIR, then locus.config.json, then the legacy location */
+export function resolveDataDir(): string {
+  const configured = process.env.LOCUS_DATA_DIR || readConfig().dataDir;
+  return configured ? path.resolve(process.cwd(), configured) : LEGACY_DATA_DIR;
+}
+
+/**
+ * Move data files (documents, journals, backups, trash) from the legacy directory into
+ * dir. Files already present in dir are left alone in both places. Returns
+ * the names that were moved.
+ */
+export function migrateLegacyData(from: string, to: string): string[] {
+  if (path.resolve(from) === path.resolve(to) || !fs.existsSync(from)) return [];
+  const moved: string[] = [];
+  for (const f of fs.readdirSync(from)) {
+    if (!f.endsWith(".cgi") && !f.endsWith(".journal.jsonl") && f !== "trash") continue;
+    const target = path.join(to, f);
+    if (fs.existsSync(target)) {
+      console.warn(`Not migrating ${f}: it already exists in ${to}`);
+      continue;
+    }
+    moveFile(path.join(from, f), target);
+    moved.push(f);
+  }
+  return moved;
+}
+
+/** rename, falling back to copy + delete across filesystems */
+function moveFile(from: string, to: string) {
+  try {
+    fs.renameSync(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    fs.cpSync(from, to, { recursive: true });
+    fs.rmSync(from, { recursive: true });
+  }
+}
+
+const createdDirs = new Set<string>();
+
+/** Directory holding every document and its backups, created on first use */
+export function dataDir(): string {
+  const dir = resolveDataDir();
+  if (!createdDirs.has(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+    createdDirs.add(dir);
+  }
+  return dir;
+}
+
+/** One-time move of data left in the legacy directory; run at server startup */
+export function migrateDataDir() {
+  const dir = dataDir();
+  const moved = migrateLegacyData(LEGACY_DATA_DIR, dir);
+  if (moved.length > 0) {
+    console.log(`Moved ${moved.length} data file(s) from ${LEGACY_DATA_DIR} to ${dir}`);
+  }
+}
+
+/** The original single document (memo.cgi), also served by /api/tree */
+export const DEFAULT_DOC = "memo";
+
+const INITIAL_CONTENT = "root\n";
+
+/** Minimum age of the newest backup before an incremental save rotates again */
+const BACKUP_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Document names become file names, so they are limited to letters, digits
+ * and "-". No "_" keeps <doc>_NN.cgi backups from clashing with other docs.
+ */
+export function isValidDocName(name: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9-]{0,63}$/.test(name);
+}
+
+export function docPath(doc: string): string {
+  return path.join(dataDir(), `${doc}.cgi`);
+}
+
+/** Append-only save journal of a document, see journal.ts */
+export function journalPath(doc: string): string {
+  return path.join(dataDir(), `${doc}.journal.jsonl`);
+}
+
+export function backupPath(doc: string, n: number): string {
+  const num = String(n).padStart(2, "0");
+  return path.join(dataDir(), `${doc}_${num}.cgi`);
+}
+
+export type BackupKind = "rotating" | "weekly" | "pinned";
+
+/**
+ * Which kind of backup of doc the file name is (memo_03.cgi, memo_weekly_2026-01-05.cgi,
+ * memo_pinned_<timestamp>.cgi), or null for anything else, including paths.
+ */
+export function backupKind(doc: string, name: string): BackupKind | null {
+  if (!name.startsWith(`${doc}_`) || !name.endsWith(".cgi")) return null;
+  const rest = name.slice(doc.length + 1, -".cgi".length);
+  if (/^\d+$/.test(rest)) return "rotating";
+  if (/^weekly_\d{4}-\d{2}-\d{2}$/.test(rest)) return "weekly";
+  if (/^pinned_[\dTZ-]+$/.test(rest)) return "pinned";
+  return null;
+}
+
+export function docExists(doc: string): boolean {
+  return fs.existsSync(docPath(doc));
+}
+
+/** Read a document, creating it on first use */
+export function readDoc(doc: string): string {
+  const file = docPath(doc);
+  if (!fs.existsSync(file)) {
+    writeFileAtomic(file, INITIAL_CONTENT);
+  }
+  return fs.readFileSync(file, "utf-8");
+}
+
+export function writeDoc(doc: string, content: string) {
+  writeFileAtomic(docPath(doc), content);
+}
+
+/** Retention policy from locus.config.json, over the defaults; a bad setting is a TreeValidationError */
+export function retentionPolicy(): RetentionPolicy {
+  const { retention } = readConfig();
+  try {
+    return resolveRetention(retention);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new TreeValidationError(CONFIG_FILE, message);
+  }
+}
+
+/** Numbers of doc's rotating backups (memo_01.cgi → 1), ascending */
+function rotatingNumbers(doc: string): number[] {
+  return fs
+    .readdirSync(dataDir())
+    .filter((f) => backupKind(doc, f) === "rotating")
+    .map((f) => Number(f.slice(doc.length + 1, -".cgi".length)))
+    .sort((a, b) => a - b);
+}
+
+/** Copy the current document to _01, shifting older backups up, then prune */
+export function rotateBackups(doc: string) {
+  // Shift: _09 → _10, _08 → _09, ... _01 → _02
+  for (const n of rotatingNumbers(doc).reverse()) {
+    fs.renameSync(backupPath(doc, n), backupPath(doc, n + 1));
+  }
+
+  // Copy current to _01
+  if (docExists(doc)) {
+    fs.copyFileSync(docPath(doc), backupPath(doc, 1));
+  }
+  pruneAfterBackup(doc);
+}
+
+/** Rotate only if the newest backup is older than BACKUP_INTERVAL_MS */
+export function rotateBackupsIfStale(doc: string) {
+  const latest = backupPath(doc, 1);
+  if (fs.existsSync(latest) && Date.now() - fs.statSync(latest).mtimeMs < BACKUP_INTERVAL_MS) {
+    return;
+  }
+  rotateBackups(doc);
+}
+
+/** Create a weekly backup (one per week; only pruning removes it) */
+export function ensureWeeklyBackup(doc: string) {
+  if (!docExists(doc)) return;
+
+  const now = new Date();
+  // Find this week's Monday
+  const day = now.getDay(); // 0=Sun, 1=Mon, ...
+  const diff = day === 0 ? 6 : day - 1; // days since Monday
+  const monday = new Date(now);
+  monday.setDate(now.getDate() - diff);
+  const dateStr = monday.toISOString().slice(0, 10); // YYYY-MM-DD
+
+  const weeklyPath = path.join(dataDir(), `${doc}_weekly_${dateStr}.cgi`);
+
+  if (!fs.existsSync(weeklyPath)) {
+    fs.copyFileSync(docPath(doc), weeklyPath);
+    pruneAfterBackup(doc);
+  }
+}
+
+/** Pinned backups kept per document; pinning another deletes the oldest */
+export const MAX_PINNED_BACKUPS = 20;
+
+/**
+ * Copy the current document to <doc>_pinned_<timestamp>.cgi, a backup that
+ * rotation and retention never touch. If the newest pinned backup already
+ * holds the same content, it is reused. Returns the backup's file name.
+ */
+export function pinBackup(doc: string): string {
+  const dir = dataDir();
+  const content = fs.readFileSync(docPath(doc));
+  // Timestamps sort oldest first
+  const pinned = fs
+    .readdirSync(dir)
+    .filter((name) => backupKind(doc, name) === "pinned")
+    .sort();
+  const latest = pinned[pinned.length - 1];
+  if (latest && fs.readFileSync(path.join(dir, latest)).equals(content)) return latest;
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const name = `${doc}_pinned_${stamp}.cgi`;
+  fs.copyFileSync(docPath(doc), path.join(dir, name));
+  if (!pinned.includes(name)) pinned.push(name);
+  for (const old of pinned.slice(0, -MAX_PINNED_BACKUPS)) fs.unlinkSync(path.join(dir, old));
+  return name;
+}
+
+/**
+ * Prune after a save made a backup. A bad retention setting must not cost
+ * the save, so it only skips pruning, with a warning.
+ */
+function pruneAfterBackup(doc: string) {
+  try {
+    pruneBackups(doc);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.warn(`Backups of ${doc} not pruned: ${message}`);
+  }
+}
+
+/**
+ * Apply the retention policy to doc's backups, timed by their mtime, and
+ * renumber the surviving rotating backups from _01. With dryRun nothing is
+ * deleted. Returns what was (or would be) kept and deleted, by the names
+ * before renumbering.
+ *
+ * Weekly backups used to be kept forever, so until retention is configured
+ * (keepWeekly, the default then) none of them is deleted.
+ */
+export function pruneBackups(
+  doc: string,
+  dryRun = false,
+  policy = retentionPolicy(),
+  keepWeekly = readConfig().retention === undefined
+): RetentionPlan {
+  const dir = dataDir();
+  const backups = fs
+    .readdirSync(dir)
+    .map((name) => ({ name, kind: backupKind(doc, name) }))
+    .filter((b) => b.kind !== null)
+    .map(({ name, kind }) => ({
+      name,
+      time: fs.statSync(path.join(dir, name)).mtimeMs,
+      pinned: kind === "pinned",
+      kept: keepWeekly && kind === "weekly" ? "unconfigured" : undefined,
+    }));
+  const plan = planRetention(backups, policy);
+  if (dryRun || plan.remove.length === 0) return plan;
+
+  for (const name of plan.remove) fs.unlinkSync(path.join(dir, name));
+  // Close the gaps so _01 stays the newest and numbers stay small
+  rotatingNumbers(doc).forEach((n, i) => {
+    if (n !== i + 1) fs.renameSync(backupPath(doc, n), backupPath(doc, i + 1));
+  });
+  return plan;
+}
+
+/** File names in the data directory that belong to doc: the document, its journal and backups */
+function docFiles(doc: string): string[] {
+  return fs
+    .readdirSync(dataDir())
+    .filter(
+      (f) =>
+        f === `${doc}.cgi` ||
+        f === `${doc}.journal.jsonl` ||
+        (f.startsWith(`${doc}_`) && f.endsWith(".cgi"))
+    );
+}
+
+/** All documents, the default one first, then by name */
+export function listDocs(): { name: string; mtime: string; size: number }[] {
+  // The default document is always listed, so create it if needed
+  readDoc(DEFAULT_DOC);
+  return fs
+    .readdirSync(dataDir())
+    .map((f) => f.match(/^(.+)\.cgi$/)?.[1])
+    .filter((name): name is string => name !== undefined && isValidDocName(name))
+    .map((name) => {
+      const stat = fs.statSync(docPath(name));
+      return { name, mtime: stat.mtime.toISOString(), size: stat.size };
+    })
+    .sort((a, b) =>
+      a.name === DEFAULT_DOC ? -1 : b.name === DEFAULT_DOC ? 1 : a.name.localeCompare(b.name)
+    );
+}
+
+/** Rename a document together with its backups */
+export function renameDoc(from: string, to: string) {
+  const dir = dataDir();
+  for (const f of docFiles(from)) {
+    fs.renameSync(path.join(dir, f), path.join(dir, to + f.slice(from.length)));
+  }
+}
+
+/** Move a document and its backups into the data directory's trash/ instead of deleting them */
+export function deleteDoc(doc: string) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const dir = dataDir();
+  const trashDir = path.join(dir, "trash", `${doc}-${stamp}`);
+  fs.mkdirSync(trashDir, { recursive: true });
+  for (const f of docFiles(doc)) {
+    fs.renameSync(path.join(dir, f), path.join(trashDir, f));
+  }
+}
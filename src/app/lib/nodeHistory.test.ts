@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { nodeHistory } from "./nodeHistory";
+import { recordSave } from "./journal";
+import { backupPath, writeDoc } from "./memoStore";
+import { getTree, putTree } from "./treeRoutes";
+import { nextId } from "./treeUtils";
+import { TreeNodeData } from "../components/TreeNode";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-nodehistory-"));
+  process.env.LOCUS_DATA_DIR = dir;
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  delete process.env.LOCUS_DATA_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const memo = (text: string) => `!{format:2}\nroot\n !{id:1}\n ${text}\n  !{id:2}\n`;
+
+/** Save a new text for node 2 at a time, journaled the way the PATCH route does */
+function saveText(previous: string, text: string, at: string, author?: string) {
+  vi.setSystemTime(new Date(at));
+  const content = memo(text);
+  recordSave("memo", previous, content, [{ type: "text", id: 2, text }], author);
+  writeDoc("memo", content);
+  return content;
+}
+
+describe("nodeHistory（ノードの編集履歴）", () => {
+  it("ジャーナルから文言の変遷と編集者を新しい順に返す", async () => {
+    let content = memo("draft");
+    writeDoc("memo", content);
+    content = saveText(content, "decided", "2026-01-01T10:00:00Z", "Sato");
+    content = saveText(content, "decided", "2026-01-01T11:00:00Z");
+    saveText(content, "revised", "2026-02-01T10:00:00Z", "Kim");
+
+    const versions = await nodeHistory("memo", 2);
+    expect(versions.map((v) => [v.text, v.author])).toEqual([
+      ["revised", "Kim"],
+      ["decided", "Sato"],
+      ["draft", undefined],
+    ]);
+    expect(versions[1].at).toBe("2026-01-01T10:00:00.000Z");
+  });
+
+  it("ジャーナルより前の履歴はバックアップから補う", async () => {
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    fs.writeFileSync(backupPath("memo", 1), memo("oldest"));
+    const old = new Date("2025-12-01T00:00:00Z");
+    fs.utimesSync(backupPath("memo", 1), old, old);
+    const content = memo("draft");
+    writeDoc("memo", content);
+    saveText(content, "decided", "2026-01-01T10:00:00Z");
+
+    const versions = await nodeHistory("memo", 2);
+    expect(versions.map((v) => [v.text, v.source])).toEqual([
+      ["decided", "journal"],
+      ["draft", "journal"],
+      ["oldest", "backup"],
+    ]);
+    expect(versions[2].version).toBe("memo_01.cgi");
+  });
+
+  it("IDを持たない古いバックアップの位置で振られたIDは別のノードとみなさない", async () => {
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    // Before ids were stored: "Shopping list" gets id 2 by position
+    fs.writeFileSync(backupPath("memo", 1), "root\n Shopping list\n");
+    const old = new Date("2025-12-01T00:00:00Z");
+    fs.utimesSync(backupPath("memo", 1), old, old);
+    writeDoc("memo", memo("Decision"));
+
+    const versions = await nodeHistory("memo", 2);
+    expect(versions.map((v) => [v.text, v.source])).toEqual([["Decision", "current"]]);
+  });
+
+  it("存在しないノードは空になる", async () => {
+    writeDoc("memo", memo("draft"));
+    expect(await nodeHistory("memo", 99)).toEqual([]);
+  });
+
+  it("消したノードのIDは新しいノードに再利用されず、履歴が混ざらない", async () => {
+    /** Save the tree through the PUT route at a time, as the client does */
+    async function put(nodes: TreeNodeData[], at: string) {
+      vi.setSystemTime(new Date(at));
+      const body = JSON.stringify({ nodes });
+      await putTree("memo", new Request("http://localhost/api/tree", { method: "PUT", body }));
+    }
+    async function addChild(text: string, at: string): Promise<number> {
+      const data = await getTree("memo").json();
+      const id = nextId(data.nodes, data.nextId);
+      data.nodes[0].children.push({ id, text, indent: 1, closed: false, children: [] });
+      await put(data.nodes, at);
+      return id;
+    }
+    writeDoc("memo", memo("keep"));
+
+    const fired = await addChild("Fire Alice", "2026-01-01T10:00:00Z");
+    const tree = (await getTree("memo").json()).nodes;
+    tree[0].children = tree[0].children.filter((n: TreeNodeData) => n.id !== fired);
+    await put(tree, "2026-01-01T11:00:00Z");
+    const lunch = await addChild("Lunch menu", "2026-01-01T12:00:00Z");
+
+    expect(lunch).not.toBe(fired);
+    expect((await nodeHistory("memo", lunch)).map((v) => v.text)).toEqual(["Lunch menu"]);
+    expect((await nodeHistory("memo", fired)).map((v) => v.text)).toEqual(["Fire Alice"]);
+  });
+});
@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import { findNode } from "./treeUtils";
+import { parseMemo, storedIds } from "./memoCodec";
+import { forEachState, readJournal } from "./journal";
+import { gitEnabled, history, readAtCommit } from "./gitStore";
+import { backupKind, dataDir, readDoc } from "./memoStore";
+
+export type NodeVersionSource = "current" | "journal" | "backup" | "git";
+
+/** One wording of a node: when it was first seen, where, and who wrote it if known */
+export type NodeVersion = {
+  text: string;
+  at: string;
+  source: NodeVersionSource;
+  /** Backup file or "git:<hash>" the text was found in */
+  version?: string;
+  author?: string;
+};
+
+/** The node's text in one recorded state, null when the node wasn't there */
+type Sighting = Omit<NodeVersion, "text"> & { text: string | null; time: number };
+
+/**
+ * The node's text in a stored version. Only an id the version carries as
+ * !{id:N} identifies the node: a backup from before ids were stored numbers
+ * its nodes by position, so its node with this id is an unrelated one.
+ */
+function textOf(content: string, id: number): string | null {
+  if (!storedIds(content).has(id)) return null;
+  return findNode(parseMemo(content), id)?.text ?? null;
+}
+
+/** Older states from backups and commits, for the time before the journal starts */
+async function olderSightings(doc: string, id: number, before: number): Promise<Sighting[]> {
+  const sightings: Sighting[] = [];
+  const dir = dataDir();
+  for (const name of fs.readdirSync(dir)) {
+    if (backupKind(doc, name) === null) continue;
+    const file = path.join(dir, name);
+    const time = fs.statSync(file).mtimeMs;
+    if (time >= before) continue;
+    sightings.push({
+      time,
+      at: new Date(time).toISOString(),
+      text: textOf(fs.readFileSync(file, "utf-8"), id),
+      source: "backup",
+      version: name,
+    });
+  }
+  if (gitEnabled()) {
+    for (const commit of await history(doc)) {
+      const time = Date.parse(commit.date);
+      if (time >= before) continue;
+      const version = `git:${commit.hash}`;
+      const content = await readAtCommit(doc, version);
+      if (content === null) continue;
+      sightings.push({ time, at: commit.date, text: textOf(content, id), source: "git", version });
+    }
+  }
+  return sightings;
+}
+
+/**
+ * Every distinct text node id has had, newest first, each with the time it
+ * was first seen. The journal covers the time since it started; backups and
+ * git commits fill in what came before.
+ */
+export async function nodeHistory(doc: string, id: number): Promise<NodeVersion[]> {
+  const journalStart = readJournal(doc)[0]?.at;
+  const sightings = await olderSightings(
+    doc,
+    id,
+    journalStart ? Date.parse(journalStart) : Infinity
+  );
+  forEachState(doc, (record, nodes) => {
+    sightings.push({
+      time: Date.parse(record.at),
+      at: record.at,
+      text: findNode(nodes, id)?.text ?? null,
+      source: "journal",
+      author: record.author,
+    });
+  });
+  const now = Date.now();
+  sightings.push({
+    time: now,
+    at: new Date(now).toISOString(),
+    text: textOf(readDoc(doc), id),
+    source: "current",
+  });
+
+  const versions: NodeVersion[] = [];
+  let last: string | null = null;
+  for (const { text, at, source, version, author } of sightings.sort((a, b) => a.time - b.time)) {
+    if (text !== null && text !== last) versions.push({ text, at, source, version, author });
+    last = text;
+  }
+  return versions.reverse();
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { planRetention, resolveRetention, RetentionPolicy } from "./retention";
+
+const none: RetentionPolicy = { recent: 0, hourly: 0, daily: 0, weekly: 0, monthly: 0, yearly: 0 };
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("planRetention（保持ポリシー）", () => {
+  it("最新 N 件を残し、それ以外は削除する", () => {
+    const backups = [
+      { name: "a", time: at("2026-01-01T10:00:00Z") },
+      { name: "b", time: at("2026-01-01T11:00:00Z") },
+      { name: "c", time: at("2026-01-01T12:00:00Z") },
+    ];
+    const plan = planRetention(backups, { ...none, recent: 2 });
+    expect(plan.keep).toEqual([
+      { name: "c", reasons: ["recent"] },
+      { name: "b", reasons: ["recent"] },
+    ]);
+    expect(plan.remove).toEqual(["a"]);
+  });
+
+  it("期間ごとに最新のバックアップを1つずつ残す", () => {
+    const backups = [
+      { name: "d1-early", time: at("2026-01-01T08:00:00Z") },
+      { name: "d1-late", time: at("2026-01-01T20:00:00Z") },
+      { name: "d2", time: at("2026-01-02T09:00:00Z") },
+      { name: "d3", time: at("2026-01-03T09:00:00Z") },
+    ];
+    const plan = planRetention(backups, { ...none, daily: 2 });
+    expect(plan.keep.map((b) => b.name)).toEqual(["d3", "d2"]);
+    expect(plan.remove).toEqual(["d1-late", "d1-early"]);
+  });
+
+  it("週は月曜始まりで数え、複数の規則が理由として並ぶ", () => {
+    const backups = [
+      { name: "sun", time: at("2026-01-04T12:00:00Z") },
+      { name: "mon", time: at("2026-01-05T12:00:00Z") },
+    ];
+    const plan = planRetention(backups, { ...none, recent: 1, weekly: 2 });
+    expect(plan.keep).toEqual([
+      { name: "mon", reasons: ["recent", "weekly"] },
+      { name: "sun", reasons: ["weekly"] },
+    ]);
+  });
+
+  it("固定バックアップは常に残し、件数にも数えない", () => {
+    const backups = [
+      { name: "pinned", time: at("2026-01-02T00:00:00Z"), pinned: true },
+      { name: "old", time: at("2026-01-01T00:00:00Z") },
+    ];
+    const plan = planRetention(backups, { ...none, recent: 1 });
+    expect(plan.keep).toEqual([
+      { name: "pinned", reasons: ["pinned"] },
+      { name: "old", reasons: ["recent"] },
+    ]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it("kept の付いたバックアップは理由付きで常に残す", () => {
+    const backups = [
+      { name: "weekly", time: at("2026-01-02T00:00:00Z"), kept: "unconfigured" },
+      { name: "old", time: at("2026-01-01T00:00:00Z") },
+    ];
+    const plan = planRetention(backups, { ...none, recent: 0 });
+    expect(plan.keep).toEqual([{ name: "weekly", reasons: ["unconfigured"] }]);
+    expect(plan.remove).toEqual(["old"]);
+  });
+});
+
+describe("resolveRetention（設定の解決）", () => {
+  it("未設定の規則は既定値になる", () => {
+    expect(resolveRetention({ hourly: 48 })).toMatchObject({ recent: 10, hourly: 48, weekly: 52 });
+  });
+
+  it("負の数や小数は拒否する", () => {
+    expect(() => resolveRetention({ daily: -1 })).toThrow("retention.daily");
+    expect(() => resolveRetention({ recent: 1.5 })).toThrow("retention.recent");
+  });
+});
@@ -0,0 +1,107 @@
+import { TreeValidationError } from "./treeValidation";
+
+/**
+ * How many backups to keep: the most recent ones, plus the newest backup of
+ * each of the last N hours, days, weeks, months and years that have one.
+ * 0 turns a rule off.
+ */
+export type RetentionPolicy = {
+  recent: number;
+  hourly: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+  yearly: number;
+};
+
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  recent: 10,
+  hourly: 24,
+  daily: 30,
+  weekly: 52,
+  monthly: 0,
+  yearly: 0,
+};
+
+type Period = Exclude<keyof RetentionPolicy, "recent">;
+
+const PERIODS: Period[] = ["hourly", "daily", "weekly", "monthly", "yearly"];
+
+/**
+ * Merge configured values over the defaults, checking each is a whole number
+ * >= 0. Throws TreeValidationError naming the first bad setting.
+ */
+export function resolveRetention(configured: Partial<RetentionPolicy> = {}): RetentionPolicy {
+  if (typeof configured !== "object" || configured === null || Array.isArray(configured)) {
+    throw new TreeValidationError("retention", "must be an object");
+  }
+  const policy = { ...DEFAULT_RETENTION, ...configured };
+  for (const key of Object.keys(DEFAULT_RETENTION) as (keyof RetentionPolicy)[]) {
+    const value = policy[key];
+    if (!Number.isInteger(value) || value < 0) {
+      throw new TreeValidationError(`retention.${key}`, "must be a whole number >= 0");
+    }
+  }
+  return policy;
+}
+
+/** The period a time (ms) falls in, in UTC; weeks start on Monday */
+function periodKey(period: Period, time: number): string {
+  const iso = new Date(time).toISOString();
+  switch (period) {
+    case "hourly":
+      return iso.slice(0, 13);
+    case "daily":
+      return iso.slice(0, 10);
+    case "weekly": {
+      const date = new Date(time);
+      const sinceMonday = (date.getUTCDay() + 6) % 7;
+      date.setUTCDate(date.getUTCDate() - sinceMonday);
+      return date.toISOString().slice(0, 10);
+    }
+    case "monthly":
+      return iso.slice(0, 7);
+    case "yearly":
+      return iso.slice(0, 4);
+  }
+}
+
+export type RetentionBackup = {
+  name: string;
+  time: number;
+  pinned?: boolean;
+  /** Kept regardless of the policy, for this reason, like a pinned backup */
+  kept?: string;
+};
+
+export type RetentionPlan = {
+  /** Backups to keep, newest first, with the rules that keep them */
+  keep: { name: string; reasons: string[] }[];
+  /** Backups to delete, newest first */
+  remove: string[];
+};
+
+/** Decide which backups the policy keeps. Pinned and kept backups are always kept. */
+export function planRetention(backups: RetentionBackup[], policy: RetentionPolicy): RetentionPlan {
+  const entries = [...backups]
+    .sort((a, b) => b.time - a.time)
+    .map((b) => ({ ...b, reasons: b.pinned ? ["pinned"] : b.kept ? [b.kept] : [] }));
+  const candidates = entries.filter((b) => b.reasons.length === 0);
+
+  for (const b of candidates.slice(0, policy.recent)) b.reasons.push("recent");
+  for (const period of PERIODS) {
+    const seen = new Set<string>();
+    for (const b of candidates) {
+      if (seen.size >= policy[period]) break;
+      const key = periodKey(period, b.time);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      b.reasons.push(period);
+    }
+  }
+
+  return {
+    keep: entries.filter((b) => b.reasons.length > 0).map(({ name, reasons }) => ({ name, reasons })),
+    remove: entries.filter((b) => b.reasons.length === 0).map((b) => b.name),
+  };
+}
@@ -0,0 +1,18 @@
+import crypto from "crypto";
+
+/** Revision (ETag value) of a memo file: a short hash of its content */
+export function revisionOf(content: string): string {
+  return crypto.createHash("sha1").update(content).digest("hex").slice(0, 16);
+}
+
+/** ETag header value for a revision */
+export function etag(revision: string): string {
+  return `"${revision}"`;
+}
+
+/** Base revision from the If-Match header, or null when the client sent none */
+export function ifMatchRevision(request: Request): string | null {
+  const header = request.headers.get("if-match")?.trim();
+  if (!header || header === "*") return null;
+  return header.replace(/^W\//, "").replace(/^"|"$/g, "");
+}
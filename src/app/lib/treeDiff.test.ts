@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { diffTrees, changedOnly, DiffNode } from "./treeDiff";
+import { TreeNodeData } from "../components/TreeNode";
+
+const n = (id: number, text: string, children: TreeNodeData[] = []): TreeNodeData => ({
+  id, text, indent: 0, closed: false, children,
+});
+
+// root
+//   A
+//     A1
+//   B
+//   C
+const base = [n(1, "root", [n(2, "A", [n(5, "A1")]), n(3, "B"), n(4, "C")])];
+
+/** id → changes, for compact assertions */
+function changesOf(nodes: DiffNode[], result: Record<number, string[]> = {}) {
+  for (const node of nodes) {
+    if (node.changes.length > 0) result[node.id] = node.changes;
+    changesOf(node.children, result);
+  }
+  return result;
+}
+
+describe("diffTrees（ツリー差分）", () => {
+  it("同じツリーなら変更なし", () => {
+    const diff = diffTrees(base, base);
+    expect(changesOf(diff.nodes)).toEqual({});
+    expect(diff.summary).toEqual({ added: 0, removed: 0, edited: 0, reparented: 0, moved: 0 });
+  });
+
+  it("追加・編集を検出する", () => {
+    const next = [n(1, "root", [n(2, "A!", [n(5, "A1")]), n(6, "new"), n(3, "B"), n(4, "C")])];
+    const diff = diffTrees(base, next);
+    expect(changesOf(diff.nodes)).toEqual({ 2: ["edited"], 6: ["added"] });
+    expect(diff.nodes[0].children[0].oldText).toBe("A");
+  });
+
+  it("追加で後ろの兄弟が移動扱いにならない", () => {
+    const next = [n(1, "root", [n(6, "new"), n(2, "A", [n(5, "A1")]), n(3, "B"), n(4, "C")])];
+    expect(changesOf(diffTrees(base, next).nodes)).toEqual({ 6: ["added"] });
+  });
+
+  it("削除されたノードは元の位置に残る", () => {
+    const next = [n(1, "root", [n(3, "B"), n(4, "C")])];
+    const diff = diffTrees(base, next);
+    expect(diff.summary.removed).toBe(2);
+    const removed = diff.nodes[0].children[0];
+    expect(removed.id).toBe(2);
+    expect(removed.changes).toEqual(["removed"]);
+    expect(removed.children.map((c) => c.id)).toEqual([5]);
+  });
+
+  it("兄弟間の並べ替えは移動、親の変更は親変更として扱う", () => {
+    const next = [n(1, "root", [n(4, "C"), n(2, "A"), n(3, "B", [n(5, "A1")])])];
+    expect(changesOf(diffTrees(base, next).nodes)).toEqual({ 4: ["moved"], 5: ["reparented"] });
+  });
+
+  it("削除された親から移動した子は新しい位置にだけ現れる", () => {
+    const next = [n(1, "root", [n(3, "B", [n(5, "A1")]), n(4, "C")])];
+    const diff = diffTrees(base, next);
+    const removed = diff.nodes[0].children.find((c) => c.id === 2)!;
+    expect(removed.children).toEqual([]);
+    expect(changesOf(diff.nodes)).toEqual({ 2: ["removed"], 5: ["reparented"] });
+  });
+});
+
+describe("changedOnly（変更部分の抽出）", () => {
+  it("変更のない部分木は省かれ、変更の祖先は残る", () => {
+    const next = [n(1, "root", [n(2, "A", [n(5, "A1!")]), n(3, "B"), n(4, "C")])];
+    const outline = changedOnly(diffTrees(base, next).nodes);
+    expect(outline).toHaveLength(1);
+    expect(outline[0].children.map((c) => c.id)).toEqual([2]);
+    expect(outline[0].children[0].children[0].changes).toEqual(["edited"]);
+  });
+});
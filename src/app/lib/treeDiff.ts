@@ -0,0 +1,159 @@
+import { TreeNodeData } from "../components/TreeNode";
+
+/**
+ * How a node differs between two versions of a tree, matched by id:
+ *   added       only in the new version
+ *   removed     only in the old version
+ *   edited      text changed
+ *   reparented  now under a different parent
+ *   moved       same parent, but its order among the siblings changed
+ */
+export type NodeChange = "added" | "removed" | "edited" | "reparented" | "moved";
+
+/** A node of the combined outline: the new tree with removed nodes shown where they were */
+export type DiffNode = {
+  id: number;
+  text: string;
+  /** Text in the old version, when edited */
+  oldText?: string;
+  changes: NodeChange[];
+  children: DiffNode[];
+};
+
+export type TreeDiff = {
+  nodes: DiffNode[];
+  summary: Record<NodeChange, number>;
+};
+
+type Position = { parentId: number | null; index: number; node: TreeNodeData };
+
+function indexPositions(
+  nodes: TreeNodeData[],
+  parentId: number | null = null,
+  positions: Map<number, Position> = new Map()
+): Map<number, Position> {
+  nodes.forEach((node, index) => {
+    positions.set(node.id, { parentId, index, node });
+    indexPositions(node.children, node.id, positions);
+  });
+  return positions;
+}
+
+/** Ids in the longest common subsequence of a and b */
+function commonOrder(a: number[], b: number[]): Set<number> {
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const common = new Set<number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+/**
+ * Nodes that stayed under the same parent but changed order. Only those
+ * outside the longest common order count, so an insertion doesn't mark every
+ * later sibling as moved.
+ */
+function findMoved(from: Map<number, Position>, to: TreeNodeData[]): Set<number> {
+  const moved = new Set<number>();
+  function visit(children: TreeNodeData[], parentId: number | null) {
+    // Siblings that were already under this parent, in their new order
+    const stayed = children.map((c) => c.id).filter((id) => from.get(id)?.parentId === parentId);
+    const oldOrder = [...stayed].sort((a, b) => from.get(a)!.index - from.get(b)!.index);
+    const common = commonOrder(oldOrder, stayed);
+    for (const id of stayed) if (!common.has(id)) moved.add(id);
+    for (const child of children) visit(child.children, child.id);
+  }
+  visit(to, null);
+  return moved;
+}
+
+function removedSubtree(node: TreeNodeData, to: Map<number, Position>): DiffNode {
+  return {
+    id: node.id,
+    text: node.text,
+    changes: ["removed"],
+    // Children that still exist were moved out and show up at their new place
+    children: node.children.filter((c) => !to.has(c.id)).map((c) => removedSubtree(c, to)),
+  };
+}
+
+/** Structural diff that turns `from` into `to` */
+export function diffTrees(from: TreeNodeData[], to: TreeNodeData[]): TreeDiff {
+  const fromPos = indexPositions(from);
+  const toPos = indexPositions(to);
+  const moved = findMoved(fromPos, to);
+  const summary: Record<NodeChange, number> = {
+    added: 0, removed: 0, edited: 0, reparented: 0, moved: 0,
+  };
+
+  function build(nodes: TreeNodeData[]): DiffNode[] {
+    return nodes.map((node) => {
+      const old = fromPos.get(node.id);
+      const diffNode: DiffNode = {
+        id: node.id,
+        text: node.text,
+        changes: [],
+        children: build(node.children),
+      };
+      if (!old) {
+        diffNode.changes.push("added");
+      } else {
+        if (old.node.text !== node.text) {
+          diffNode.changes.push("edited");
+          diffNode.oldText = old.node.text;
+        }
+        if (old.parentId !== toPos.get(node.id)!.parentId) diffNode.changes.push("reparented");
+        else if (moved.has(node.id)) diffNode.changes.push("moved");
+      }
+      for (const change of diffNode.changes) summary[change]++;
+      return diffNode;
+    });
+  }
+  const nodes = build(to);
+
+  // Put each removed subtree back under its old parent, near its old index
+  const byId = new Map<number, DiffNode>();
+  const index = (list: DiffNode[]) =>
+    list.forEach((n) => {
+      byId.set(n.id, n);
+      index(n.children);
+    });
+  index(nodes);
+  for (const [id, pos] of fromPos) {
+    if (toPos.has(id)) continue;
+    summary.removed++;
+    if (pos.parentId !== null && !toPos.has(pos.parentId)) continue; // inside a removed subtree
+    const siblings = pos.parentId === null ? nodes : byId.get(pos.parentId)!.children;
+    siblings.splice(Math.min(pos.index, siblings.length), 0, removedSubtree(pos.node, toPos));
+  }
+
+  return { nodes, summary };
+}
+
+/** Drop unchanged subtrees, keeping unchanged ancestors of changes for context */
+export function changedOnly(nodes: DiffNode[]): DiffNode[] {
+  return nodes.flatMap((node) => {
+    const children = changedOnly(node.children);
+    if (node.changes.length === 0 && children.length === 0) return [];
+    return [{ ...node, children }];
+  });
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import { applyOps, diffOps, mergeTrees } from "./treeOps";
+import {
+  cloneTree, findNode, updateNodeText, deleteNode, moveNode, toggleOl, toggleNode, setNodeEntity,
+  addChildNode, indentNode, outdentNode, pasteNode, copyNode, nextId,
+} from "./treeUtils";
+import { TreeNodeData } from "../components/TreeNode";
+
+// 覚書
+//   デザイン
+//     配色ルール
+//   コーディング
+//     TypeScript入門
+// タスク
+//   買い物リスト
+const testTree: TreeNodeData[] = [
+  {
+    id: 1, text: "覚書", indent: 1, closed: false, children: [
+      {
+        id: 2, text: "デザイン", indent: 2, closed: false, children: [
+          { id: 3, text: "配色ルール", indent: 3, closed: false, children: [] },
+        ],
+      },
+      {
+        id: 4, text: "コーディング", indent: 2, closed: false, children: [
+          { id: 5, text: "TypeScript入門", indent: 3, closed: false, children: [] },
+        ],
+      },
+    ],
+  },
+  {
+    id: 6, text: "タスク", indent: 1, closed: false, children: [
+      { id: 7, text: "買い物リスト", indent: 2, closed: false, children: [] },
+    ],
+  },
+];
+
+/** diffOps の結果を適用すると変更後のツリーに一致することを確認する */
+function expectRoundTrip(next: TreeNodeData[]) {
+  const ops = diffOps(testTree, next);
+  expect(applyOps(testTree, ops)).toEqual(next);
+  return ops;
+}
+
+describe("applyOps（操作の適用）", () => {
+  it("insert で指定位置に挿入され、インデントが親に合わせられる", () => {
+    const node = { id: 10, text: "新規", indent: 9, closed: false, children: [] };
+    const result = applyOps(testTree, [{ type: "insert", parentId: 2, index: 0, node }]);
+    const parent = findNode(result, 2)!;
+    expect(parent.children[0].text).toBe("新規");
+    expect(parent.children[0].indent).toBe(3);
+  });
+
+  it("move で別の親の下へ移動できる", () => {
+    const result = applyOps(testTree, [{ type: "move", id: 7, parentId: 2, index: 1 }]);
+    expect(findNode(result, 2)!.children.map((n) => n.id)).toEqual([3, 7]);
+    expect(findNode(result, 6)!.children).toHaveLength(0);
+    expect(findNode(result, 7)!.indent).toBe(3);
+  });
+
+  it("delete / text / closed / ol が適用される", () => {
+    const result = applyOps(testTree, [
+      { type: "delete", id: 3 },
+      { type: "text", id: 4, text: "開発" },
+      { type: "closed", id: 6, closed: true },
+      { type: "ol", id: 1, ol: true },
+    ]);
+    expect(findNode(result, 3)).toBeNull();
+    expect(findNode(result, 4)!.text).toBe("開発");
+    expect(findNode(result, 6)!.closed).toBe(true);
+    expect(findNode(result, 1)!.ol).toBe(true);
+  });
+
+  it("元のツリーは変更されない", () => {
+    const before = cloneTree(testTree);
+    applyOps(testTree, [{ type: "delete", id: 1 }]);
+    expect(testTree).toEqual(before);
+  });
+
+  it("存在しないノードへの操作はエラーになる", () => {
+    expect(() => applyOps(testTree, [{ type: "text", id: 999, text: "x" }])).toThrow();
+    expect(() => applyOps(testTree, [{ type: "move", id: 999, parentId: null, index: 0 }])).toThrow();
+  });
+
+  it("既存IDと重複する insert はエラーになる", () => {
+    const node = { id: 3, text: "dup", indent: 1, closed: false, children: [] };
+    expect(() => applyOps(testTree, [{ type: "insert", parentId: null, index: 0, node }])).toThrow();
+  });
+
+  it("自分の子孫への move はエラーになる", () => {
+    expect(() => applyOps(testTree, [{ type: "move", id: 1, parentId: 3, index: 0 }])).toThrow();
+  });
+});
+
+describe("diffOps（差分の操作列）", () => {
+  it("変更がなければ空", () => {
+    expect(diffOps(testTree, cloneTree(testTree))).toEqual([]);
+  });
+
+  it("テキスト変更は text 操作1件になる", () => {
+    const ops = expectRoundTrip(updateNodeText(testTree, 5, "Rust入門"));
+    expect(ops).toEqual([{ type: "text", id: 5, text: "Rust入門" }]);
+  });
+
+  it("削除は最上位ノードの delete 1件になる", () => {
+    const ops = expectRoundTrip(deleteNode(testTree, 1));
+    expect(ops).toEqual([{ type: "delete", id: 1 }]);
+  });
+
+  it("子追加は insert 1件になる", () => {
+    const { tree } = addChildNode(testTree, 7, 8);
+    const ops = expectRoundTrip(tree);
+    expect(ops).toHaveLength(1);
+    expect(ops[0]).toMatchObject({ type: "insert", parentId: 7, index: 0 });
+  });
+
+  it("ペーストしたサブツリーはまとめて1件の insert になる", () => {
+    const tree = pasteNode(testTree, 2, copyNode(testTree, 2)!, nextId(testTree));
+    const ops = expectRoundTrip(tree);
+    expect(ops).toHaveLength(1);
+    expect(ops[0].type).toBe("insert");
+  });
+
+  it("移動・インデント・アウトデントを往復できる", () => {
+    expectRoundTrip(moveNode(testTree, 7, 2, "child")!);
+    expectRoundTrip(moveNode(testTree, 6, 1, "before")!);
+    expectRoundTrip(indentNode(testTree, 4)!);
+    expectRoundTrip(outdentNode(testTree, 2)!);
+  });
+
+  it("折り畳みとOLの切替を往復できる", () => {
+    expectRoundTrip(toggleNode(testTree, 1));
+    expectRoundTrip(toggleOl(testTree, 6));
+  });
+
+  it("エンティティ名の設定と解除を往復できる", () => {
+    const named = setNodeEntity(testTree, 3, "配色");
+    expect(diffOps(testTree, named)).toEqual([{ type: "entity", id: 3, entity: "配色" }]);
+    expectRoundTrip(named);
+    expect(applyOps(named, diffOps(named, testTree))).toEqual(testTree);
+  });
+
+  it("削除された親から残す子を救出してから削除する", () => {
+    // デザイン を削除しつつ、その子 配色ルール は タスク の下へ
+    let next = moveNode(testTree, 3, 6, "child")!;
+    next = deleteNode(next, 2);
+    expectRoundTrip(next);
+  });
+});
+
+describe("mergeTrees（三方向マージ）", () => {
+  it("別々のノードへの変更は両方残る", () => {
+    const local = updateNodeText(testTree, 3, "配色ルール v2");
+    const remote = updateNodeText(testTree, 7, "買い物リスト（済）");
+    const merged = mergeTrees(testTree, local, remote);
+    expect(findNode(merged, 3)!.text).toBe("配色ルール v2");
+    expect(findNode(merged, 7)!.text).toBe("買い物リスト（済）");
+  });
+
+  it("同じIDで追加されたノードは両方残り、ローカル側が新しいIDになる", () => {
+    const local = addChildNode(testTree, 2, 8).tree;
+    const remote = addChildNode(testTree, 6, 8).tree;
+    const merged = mergeTrees(testTree, updateNodeText(local, 8, "ローカル"), updateNodeText(remote, 8, "リモート"));
+    expect(findNode(merged, 8)!.text).toBe("リモート");
+    expect(findNode(merged, 9)!.text).toBe("ローカル");
+    expect(findNode(merged, 2)!.children.map((n) => n.id)).toEqual([3, 9]);
+  });
+
+  it("同じノードへの変更はローカルが優先される", () => {
+    const local = updateNodeText(testTree, 5, "ローカル");
+    const remote = updateNodeText(testTree, 5, "リモート");
+    expect(findNode(mergeTrees(testTree, local, remote), 5)!.text).toBe("ローカル");
+  });
+
+  it("リモートで削除されたノードへのローカル編集は破棄される", () => {
+    const local = updateNodeText(testTree, 5, "ローカル");
+    const remote = deleteNode(testTree, 4);
+    const merged = mergeTrees(testTree, local, remote);
+    expect(findNode(merged, 4)).toBeNull();
+    expect(findNode(merged, 5)).toBeNull();
+  });
+});
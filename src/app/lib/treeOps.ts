@@ -0,0 +1,282 @@
+import { TreeNodeData } from "../components/TreeNode";
+import { cloneTree, findNode, findParentContext } from "./treeUtils";
+
+/** A single incremental edit. parentId null means the top level of the tree. */
+export type TreeOp =
+  | { type: "insert"; parentId: number | null; index: number; node: TreeNodeData }
+  | { type: "delete"; id: number }
+  | { type: "move"; id: number; parentId: number | null; index: number }
+  | { type: "text"; id: number; text: string }
+  | { type: "closed"; id: number; closed: boolean }
+  | { type: "ol"; id: number; ol: boolean }
+  | { type: "entity"; id: number; entity: string | null };
+
+/** Collect the ids of all nodes in the tree */
+function collectIds(nodes: TreeNodeData[], ids: Set<number> = new Set()): Set<number> {
+  for (const node of nodes) {
+    ids.add(node.id);
+    collectIds(node.children, ids);
+  }
+  return ids;
+}
+
+/** Set indent on a node and shift its descendants to match */
+function setIndent(node: TreeNodeData, indent: number) {
+  const delta = indent - node.indent;
+  function shift(n: TreeNodeData) {
+    n.indent += delta;
+    n.children.forEach(shift);
+  }
+  shift(node);
+}
+
+/** Indent a node should get when placed under parent (or at the top level) */
+function indentFor(
+  tree: TreeNodeData[],
+  parent: TreeNodeData | null,
+  node: TreeNodeData
+): number {
+  if (parent) return parent.indent + 1;
+  return tree.length > 0 ? tree[0].indent : node.indent;
+}
+
+/** Resolve the parent node and its children array for a parentId */
+function resolveParent(
+  tree: TreeNodeData[],
+  parentId: number | null
+): { parent: TreeNodeData | null; siblings: TreeNodeData[] } {
+  if (parentId === null) return { parent: null, siblings: tree };
+  const parent = findNode(tree, parentId);
+  if (!parent) throw new Error(`Parent node ${parentId} not found`);
+  return { parent, siblings: parent.children };
+}
+
+function requireNode(tree: TreeNodeData[], id: number): TreeNodeData {
+  const node = findNode(tree, id);
+  if (!node) throw new Error(`Node ${id} not found`);
+  return node;
+}
+
+/** Apply one op to the tree in place. Throws if the op doesn't fit the tree. */
+function applyOpInPlace(tree: TreeNodeData[], op: TreeOp) {
+  switch (op.type) {
+    case "insert": {
+      const { parent, siblings } = resolveParent(tree, op.parentId);
+      if (op.index < 0 || op.index > siblings.length) {
+        throw new Error(`Insert index ${op.index} out of range`);
+      }
+      const existing = collectIds(tree);
+      for (const id of collectIds([op.node])) {
+        if (existing.has(id)) throw new Error(`Node ${id} already exists`);
+      }
+      const node = cloneTree([op.node])[0];
+      setIndent(node, indentFor(tree, parent, node));
+      siblings.splice(op.index, 0, node);
+      return;
+    }
+    case "delete": {
+      const ctx = findParentContext(tree, op.id);
+      if (!ctx) throw new Error(`Node ${op.id} not found`);
+      ctx.siblings.splice(ctx.index, 1);
+      return;
+    }
+    case "move": {
+      const ctx = findParentContext(tree, op.id);
+      if (!ctx) throw new Error(`Node ${op.id} not found`);
+      const node = ctx.siblings[ctx.index];
+      if (op.parentId !== null && findNode([node], op.parentId)) {
+        throw new Error(`Cannot move node ${op.id} into its own subtree`);
+      }
+      const { parent, siblings } = resolveParent(tree, op.parentId);
+      ctx.siblings.splice(ctx.index, 1);
+      if (op.index < 0 || op.index > siblings.length) {
+        ctx.siblings.splice(ctx.index, 0, node);
+        throw new Error(`Move index ${op.index} out of range`);
+      }
+      setIndent(node, indentFor(tree, parent, node));
+      siblings.splice(op.index, 0, node);
+      return;
+    }
+    case "text":
+      requireNode(tree, op.id).text = op.text;
+      return;
+    case "closed":
+      requireNode(tree, op.id).closed = op.closed;
+      return;
+    case "ol": {
+      const node = requireNode(tree, op.id);
+      if (op.ol) node.ol = true;
+      else delete node.ol;
+      return;
+    }
+    case "entity": {
+      const node = requireNode(tree, op.id);
+      if (op.entity !== null) node.entity = op.entity;
+      else delete node.entity;
+      return;
+    }
+    default:
+      throw new Error(`Unknown op type: ${(op as { type: unknown }).type}`);
+  }
+}
+
+/** Apply a list of ops to a copy of the tree. Throws on the first op that doesn't apply. */
+export function applyOps(nodes: TreeNodeData[], ops: TreeOp[]): TreeNodeData[] {
+  const tree = cloneTree(nodes);
+  for (const op of ops) applyOpInPlace(tree, op);
+  return tree;
+}
+
+/**
+ * Compute the ops that turn prev into next, matching nodes by id.
+ * Applying the result to prev with applyOps yields next.
+ */
+export function diffOps(prev: TreeNodeData[], next: TreeNodeData[]): TreeOp[] {
+  const ops: TreeOp[] = [];
+  const work = cloneTree(prev);
+  const prevIds = collectIds(prev);
+  const nextIds = collectIds(next);
+
+  // Node objects in `work` are moved in place, so these maps stay valid
+  const byId = new Map<number, TreeNodeData>();
+  const parentOf = new Map<number, TreeNodeData | null>();
+  function index(list: TreeNodeData[], parent: TreeNodeData | null) {
+    for (const n of list) {
+      byId.set(n.id, n);
+      parentOf.set(n.id, parent);
+      index(n.children, n);
+    }
+  }
+  index(work, null);
+
+  function isAllNew(node: TreeNodeData): boolean {
+    return !prevIds.has(node.id) && node.children.every(isAllNew);
+  }
+  function isAllRemoved(node: TreeNodeData): boolean {
+    return !nextIds.has(node.id) && node.children.every(isAllRemoved);
+  }
+
+  // Delete removed subtrees up front so they don't shift sibling indices
+  function deleteRemoved(list: TreeNodeData[]) {
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (isAllRemoved(list[i])) {
+        ops.push({ type: "delete", id: list[i].id });
+        list.splice(i, 1);
+      } else {
+        deleteRemoved(list[i].children);
+      }
+    }
+  }
+  deleteRemoved(work);
+
+  // Walk next in pre-order. Every parent is already in its final place when
+  // its children are handled, so placing child i at index i is always correct;
+  // nodes that will be deleted drift to the end of their sibling lists.
+  function place(targets: TreeNodeData[], parent: TreeNodeData | null) {
+    const siblings = parent ? parent.children : work;
+    const parentId = parent ? parent.id : null;
+
+    targets.forEach((target, i) => {
+      if (!prevIds.has(target.id)) {
+        const whole = isAllNew(target);
+        const inserted = cloneTree([target])[0];
+        if (!whole) inserted.children = [];
+        ops.push({ type: "insert", parentId, index: i, node: cloneTree([inserted])[0] });
+        siblings.splice(i, 0, inserted);
+        index([inserted], parent);
+        if (!whole) place(target.children, inserted);
+        return;
+      }
+
+      const node = byId.get(target.id)!;
+      if (siblings[i] !== node) {
+        const from = parentOf.get(node.id) ?? null;
+        const fromList = from ? from.children : work;
+        fromList.splice(fromList.indexOf(node), 1);
+        siblings.splice(i, 0, node);
+        parentOf.set(node.id, parent);
+        ops.push({ type: "move", id: node.id, parentId, index: i });
+      }
+
+      if (node.text !== target.text) {
+        ops.push({ type: "text", id: node.id, text: target.text });
+        node.text = target.text;
+      }
+      if (node.closed !== target.closed) {
+        ops.push({ type: "closed", id: node.id, closed: target.closed });
+        node.closed = target.closed;
+      }
+      if (!!node.ol !== !!target.ol) {
+        ops.push({ type: "ol", id: node.id, ol: !!target.ol });
+      }
+      if ((node.entity ?? null) !== (target.entity ?? null)) {
+        ops.push({ type: "entity", id: node.id, entity: target.entity ?? null });
+      }
+
+      place(target.children, node);
+    });
+  }
+  place(next, null);
+
+  // Removed nodes that had kept descendants are left over once those have
+  // been moved out; only the topmost one needs an op
+  function collectDeletes(list: TreeNodeData[]) {
+    for (const n of list) {
+      if (!nextIds.has(n.id)) {
+        ops.push({ type: "delete", id: n.id });
+      } else {
+        collectDeletes(n.children);
+      }
+    }
+  }
+  collectDeletes(work);
+
+  return ops;
+}
+
+/** Clamp an insert/move index to the target list so it applies to a changed tree */
+function clampIndex(tree: TreeNodeData[], op: TreeOp): TreeOp {
+  if (op.type !== "insert" && op.type !== "move") return op;
+  const { siblings } = resolveParent(tree, op.parentId);
+  const max = op.type === "move" && siblings.some((n) => n.id === op.id)
+    ? siblings.length - 1
+    : siblings.length;
+  return { ...op, index: Math.min(op.index, max) };
+}
+
+/**
+ * Three-way merge: replay the local changes since base on top of remote.
+ * Local nodes whose new ids collide with new remote nodes get fresh ids.
+ * Where both sides touched the same node the local change wins; local ops
+ * on nodes the remote side deleted are dropped.
+ */
+export function mergeTrees(
+  base: TreeNodeData[],
+  local: TreeNodeData[],
+  remote: TreeNodeData[]
+): TreeNodeData[] {
+  const baseIds = collectIds(base);
+  const remoteIds = collectIds(remote);
+  let freshId = 0;
+  for (const id of remoteIds) if (id > freshId) freshId = id;
+  for (const id of collectIds(local)) if (id > freshId) freshId = id;
+
+  const relabeled = cloneTree(local);
+  function relabel(list: TreeNodeData[]) {
+    for (const n of list) {
+      if (!baseIds.has(n.id) && remoteIds.has(n.id)) n.id = ++freshId;
+      relabel(n.children);
+    }
+  }
+  relabel(relabeled);
+
+  const tree = cloneTree(remote);
+  for (const op of diffOps(base, relabeled)) {
+    try {
+      applyOpInPlace(tree, clampIndex(tree, op));
+    } catch {
+      // The node or its new parent is gone on the remote side
+    }
+  }
+  return tree;
+}
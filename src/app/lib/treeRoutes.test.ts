@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { diffVersions, getRetention, getTree, patchTree, putTree, restoreBackup } from "./treeRoutes";
+import { backupKind, backupPath, dataDir, docPath, MAX_PINNED_BACKUPS, readDoc, writeDoc } from "./memoStore";
+import { TreeNodeData } from "../components/TreeNode";
+import { nextId } from "./treeUtils";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "locus-treeroutes-"));
+  process.env.LOCUS_DATA_DIR = dir;
+});
+
+afterEach(() => {
+  delete process.env.LOCUS_DATA_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const current = "!{format:2}\nroot\n !{id:1}\n Inserted\n  !{id:4}\n Shopping%{s}list\n  !{id:2}\n Decision\n  !{id:3}\n";
+
+/** GET diff from the current document to a backup */
+async function diffTo(backup: string) {
+  const url = `http://localhost/api/tree/diff?from=current&to=${backup}`;
+  const res = await diffVersions("memo", new Request(url));
+  return { status: res.status, body: await res.json() };
+}
+
+describe("diffVersions（版の差分）", () => {
+  it("IDを保存しているバックアップとは構造差分を返す", async () => {
+    writeDoc("memo", current);
+    fs.writeFileSync(
+      backupPath("memo", 1),
+      "!{format:2}\nroot\n !{id:1}\n Shopping%{s}list\n  !{id:2}\n Decision\n  !{id:3}\n"
+    );
+    const { status, body } = await diffTo("memo_01.cgi");
+    expect(status).toBe(200);
+    expect(body.summary).toMatchObject({ removed: 1, edited: 0, reparented: 0 });
+  });
+
+  it("IDのない古いバックアップとは差分を作らず、そう返す", async () => {
+    writeDoc("memo", current);
+    // Same nodes, numbered by position: "Shopping list" would be id 2, "Decision" id 3
+    fs.writeFileSync(backupPath("memo", 1), "root\n Shopping list\n Decision\n");
+    const { status, body } = await diffTo("memo_01.cgi");
+    expect(status).toBe(200);
+    expect(body).toEqual({ withoutIds: ["memo_01.cgi"] });
+  });
+
+  it("最大のIDのノードを消して追加した後の差分は、削除1件と追加1件になる", async () => {
+    writeDoc("memo", current);
+    const tree = await get();
+    // Delete "Inserted" (id 4, the highest), then add a node in a later save
+    tree[0].children = tree[0].children.filter((n) => n.id !== 4);
+    expect((await put(tree, true)).status).toBe(200);
+    tree[0].children.push({ id: await newId(), text: "Lunch menu", indent: 1, closed: false, children: [] });
+    expect((await put(tree)).status).toBe(200);
+    // memo_02.cgi is the file from before the deletion
+    const { body } = await diffTo("memo_02.cgi");
+    expect(body.summary).toMatchObject({ added: 1, removed: 1, edited: 0, moved: 0 });
+  });
+});
+
+/** Ids of a tree, in document order */
+function ids(nodes: TreeNodeData[]): number[] {
+  return nodes.flatMap((n) => [n.id, ...ids(n.children)]);
+}
+
+async function get(): Promise<TreeNodeData[]> {
+  return (await getTree("memo").json()).nodes;
+}
+
+/** The id the client gives its next new node: above the tree and the server's mark */
+async function newId(): Promise<number> {
+  const data = await getTree("memo").json();
+  return nextId(data.nodes, data.nextId);
+}
+
+async function put(nodes: TreeNodeData[], confirmMassDeletion = false) {
+  const request = new Request("http://localhost/api/tree", {
+    method: "PUT",
+    body: JSON.stringify({ nodes, confirmMassDeletion }),
+  });
+  return putTree("memo", request);
+}
+
+describe("getTree / putTree（ノードIDの保存）", () => {
+  it("保存したIDは !{id:N} として書かれ、読み直しても変わらない", async () => {
+    const nodes: TreeNodeData[] = [
+      {
+        id: 1, text: "root", indent: 0, closed: false, children: [
+          { id: 7, text: "a", indent: 1, closed: false, children: [] },
+          { id: 3, text: "b", indent: 1, closed: false, children: [] },
+        ],
+      },
+    ];
+    expect((await put(nodes)).status).toBe(200);
+    expect(readDoc("memo")).toContain(" a\n  !{id:7}\n");
+    expect(await get()).toEqual(nodes);
+  });
+
+  it("IDのない旧形式のファイルは読み込み時に振られたIDで保存され、以後固定される", async () => {
+    fs.writeFileSync(docPath("memo"), "root\n a\n  b\n c\n");
+    const loaded = await get();
+    expect(ids(loaded)).toEqual([1, 2, 3, 4]);
+    expect((await put(loaded)).status).toBe(200);
+    // Inserting a node before "a" must not renumber the others now
+    const edited = await get();
+    edited[0].children.unshift({ id: 5, text: "new", indent: 1, closed: false, children: [] });
+    expect((await put(edited)).status).toBe(200);
+    expect(ids(await get())).toEqual([1, 5, 2, 3, 4]);
+  });
+
+  it("重複したIDは読み込み時に振り直され、保存後も重ならない", async () => {
+    fs.writeFileSync(docPath("memo"), "!{format:2}\nroot\n !{id:1}\n a\n  !{id:2}\n b\n  !{id:2}\n");
+    const loaded = await get();
+    expect(ids(loaded)).toEqual([1, 2, 3]);
+    await put(loaded);
+    expect(ids(await get())).toEqual([1, 2, 3]);
+  });
+
+  it("最大のIDのノードを消してから追加しても、そのIDは再利用されない", async () => {
+    fs.writeFileSync(docPath("memo"), "!{format:2}\nroot\n !{id:1}\n a\n  !{id:11}\n");
+    const tree = await get();
+    const fired = await newId();
+    expect(fired).toBe(12);
+    tree[0].children.push({ id: fired, text: "Fire Alice", indent: 1, closed: false, children: [] });
+    await put(tree);
+    tree[0].children.pop();
+    await put(tree);
+
+    const lunch = await newId();
+    expect(lunch).toBe(13);
+    tree[0].children.push({ id: lunch, text: "Lunch menu", indent: 1, closed: false, children: [] });
+    await put(tree);
+    expect(ids(await get())).toEqual([1, 11, 13]);
+  });
+
+  it("古いバックアップを復元しても、その後に使われたIDの印は下がらない", async () => {
+    fs.writeFileSync(docPath("memo"), "!{format:2}\n!{nextid:3}\nroot\n !{id:1}\n a\n  !{id:2}\n");
+    fs.writeFileSync(backupPath("memo", 1), "root\n a\n b\n");
+    const request = new Request("http://localhost/api/tree/restore", {
+      method: "POST",
+      body: JSON.stringify({ backup: "memo_01.cgi" }),
+    });
+    const res = await restoreBackup("memo", request);
+    expect(res.status).toBe(200);
+    // The legacy backup's nodes are numbered above the mark instead of from 1
+    expect(ids((await res.json()).nodes)).toEqual([3, 4, 5]);
+    expect(await newId()).toBe(6);
+  });
+});
+
+describe("putTree（大量削除の確認）", () => {
+  it("確認済みの大量削除を繰り返しても固定バックアップは上限までしか増えない", async () => {
+    vi.useFakeTimers();
+    try {
+      for (let i = 0; i < MAX_PINNED_BACKUPS + 5; i++) {
+        vi.advanceTimersByTime(60 * 1000);
+        // A small document, where dropping one node is already a mass deletion
+        writeDoc("memo", `!{format:2}\nroot\n !{id:1}\n edit%{s}${i}\n  !{id:2}\n`);
+        const [root] = await get();
+        root.children = [];
+        expect((await put([root])).status).toBe(428);
+        expect((await put([root], true)).status).toBe(200);
+      }
+      const pinned = fs.readdirSync(dataDir()).filter((f) => backupKind("memo", f) === "pinned");
+      expect(pinned).toHaveLength(MAX_PINNED_BACKUPS);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("保持設定が不正なとき", () => {
+  beforeEach(() => {
+    // locus.config.json is read from the working directory
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    fs.writeFileSync(path.join(dir, "locus.config.json"), '{"retention":{"daily":-1}}');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("保存は失敗せず、バックアップの整理だけを飛ばす", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    writeDoc("memo", "!{format:2}\nroot\n !{id:1}\n a\n  !{id:2}\n");
+    const [root] = await get();
+    root.children[0].text = "edited";
+    expect((await put([root])).status).toBe(200);
+    const patch = new Request("http://localhost/api/tree", {
+      method: "PATCH",
+      body: JSON.stringify({ ops: [{ type: "text", id: 2, text: "patched" }] }),
+    });
+    expect((await patchTree("memo", patch)).status).toBe(200);
+    expect((await get())[0].children[0].text).toBe("patched");
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("retention.daily"));
+  });
+
+  it("保持設定の確認は 400 で不正な設定を示す", async () => {
+    const res = getRetention("memo");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain("retention.daily");
+  });
+});
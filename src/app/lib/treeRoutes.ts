@@ -0,0 +1,580 @@
+import { NextResponse } from "next/server";
+import fs from "fs";
+import path from "path";
+import { TreeNodeData } from "../components/TreeNode";
+import { applyOps } from "./treeOps";
+import { countAllNodes, findNode, isMassDeletion } from "./treeUtils";
+import { diffTrees } from "./treeDiff";
+import { compactJournal, journalInfo, recordSave, stateAt } from "./journal";
+import { nodeHistory } from "./nodeHistory";
+import { watchDoc } from "./docWatcher";
+import { checkMemo, repairMemo } from "./memoIntegrity";
+import { generateFiles, outputDir } from "./generate";
+import {
+  flushCommit,
+  gitEnabled,
+  history,
+  isCommitVersion,
+  readAtCommit,
+  scheduleCommit,
+} from "./gitStore";
+import { etag, ifMatchRevision, revisionOf } from "./revision";
+import { withWriteLock } from "./fileStore";
+import { TreeValidationError, validateOps, validateTree } from "./treeValidation";
+import {
+  MEMO_FORMAT_VERSION,
+  memoNextId,
+  memoVersion,
+  parseMemo,
+  serializeMemo,
+  storedIds,
+  withNextId,
+} from "./memoCodec";
+import {
+  DEFAULT_DOC,
+  dataDir,
+  docExists,
+  docPath,
+  ensureWeeklyBackup,
+  backupKind,
+  isValidDocName,
+  pinBackup,
+  pruneBackups,
+  readDoc,
+  retentionPolicy,
+  rotateBackups,
+  rotateBackupsIfStale,
+  writeDoc,
+} from "./memoStore";
+
+// Handlers shared by /api/tree (the default document) and /api/docs/[doc]/tree
+
+/** 400 with the path for invalid input, 500 for anything else */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof TreeValidationError) {
+    return NextResponse.json({ error: error.message, path: error.path }, { status: 400 });
+  }
+  const message = error instanceof Error ? error.message : "Unknown error";
+  return NextResponse.json({ error: message }, { status: 500 });
+}
+
+/** Parse the request body, which must be a JSON object */
+export async function jsonBody(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new TreeValidationError("body", "must be valid JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new TreeValidationError("body", "must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Who is saving, from the optional x-locus-author header. The client
+ * URI-encodes it, since header values can't carry arbitrary Unicode.
+ */
+function requestAuthor(request: Request): string | undefined {
+  const header = request.headers.get("x-locus-author");
+  if (!header) return undefined;
+  let author: string;
+  try {
+    author = decodeURIComponent(header);
+  } catch {
+    author = header;
+  }
+  return author.trim().slice(0, 64) || undefined;
+}
+
+/**
+ * Content of one version of doc: "current", the name of one of its backups or
+ * a commit ("git:<hash>"). Errors come back as a response.
+ */
+async function readVersion(doc: string, version: string): Promise<string | NextResponse> {
+  if (version === "current") return readDoc(doc);
+  if (isCommitVersion(version)) {
+    const content = await readAtCommit(doc, version);
+    if (content !== null) return content;
+    return NextResponse.json({ error: `Version not found: ${version}` }, { status: 404 });
+  }
+  // Only names of this document's backups, which also rules out path traversal
+  if (backupKind(doc, version) === null) {
+    return NextResponse.json({ error: `Invalid version: ${version}` }, { status: 400 });
+  }
+  const file = path.join(dataDir(), version);
+  if (!fs.existsSync(file)) {
+    return NextResponse.json({ error: `Backup not found: ${version}` }, { status: 404 });
+  }
+  return fs.readFileSync(file, "utf-8");
+}
+
+/** Validate the [doc] route param: 400 for a bad name, 404 for a missing document */
+export async function resolveDoc(
+  params: Promise<{ doc: string }>
+): Promise<string | NextResponse> {
+  const { doc } = await params;
+  if (!isValidDocName(doc)) {
+    return NextResponse.json({ error: "Invalid document name" }, { status: 400 });
+  }
+  if (doc !== DEFAULT_DOC && !docExists(doc)) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+  return doc;
+}
+
+/** 409 with the current tree if the client's If-Match revision is stale, else null */
+function staleRevision(request: Request, current: string): NextResponse | null {
+  const base = ifMatchRevision(request);
+  const revision = revisionOf(current);
+  if (base === null || base === revision) return null;
+  return NextResponse.json(
+    {
+      error: "Document was modified by another client",
+      revision,
+      nodes: parseMemo(current),
+      nextId: memoNextId(current),
+    },
+    { status: 409, headers: { ETag: etag(revision) } }
+  );
+}
+
+/** Refuse to rewrite a file in a format newer than this server understands */
+function newerFormat(current: string): NextResponse | null {
+  const version = memoVersion(current);
+  if (version <= MEMO_FORMAT_VERSION) return null;
+  return NextResponse.json(
+    { error: `Document is format version ${version}; this server writes version ${MEMO_FORMAT_VERSION}` },
+    { status: 422 }
+  );
+}
+
+/**
+ * 428 if saving nodes would remove a large share of the stored tree and the
+ * client didn't confirm it. A confirmed drop pins the current file first, so
+ * the lost nodes can't be rotated out of the backups.
+ */
+function guardMassDeletion(
+  doc: string,
+  current: string,
+  nodes: TreeNodeData[],
+  confirmed: boolean
+): NextResponse | null {
+  const previousCount = countAllNodes(parseMemo(current));
+  const count = countAllNodes(nodes);
+  if (!isMassDeletion(previousCount, count)) return null;
+  if (!confirmed) {
+    return NextResponse.json(
+      {
+        error: `Saving would remove ${previousCount - count} of ${previousCount} nodes`,
+        previousCount,
+        count,
+      },
+      { status: 428 }
+    );
+  }
+  pinBackup(doc);
+  return null;
+}
+
+/**
+ * Pin the current file before the first save that would rewrite it without
+ * lines the parser dropped (see checkMemo), so they stay recoverable
+ */
+function pinIfLossy(doc: string, current: string) {
+  if (checkMemo(current).some((a) => a.severity === "error")) pinBackup(doc);
+}
+
+/** Write new content and answer with its revision */
+function saved(doc: string, content: string): NextResponse {
+  writeDoc(doc, content);
+  scheduleCommit();
+  const revision = revisionOf(content);
+  return NextResponse.json({ ok: true, revision }, { headers: { ETag: etag(revision) } });
+}
+
+export function getTree(doc: string): NextResponse {
+  try {
+    const content = readDoc(doc);
+    const nodes = parseMemo(content);
+    const revision = revisionOf(content);
+    return NextResponse.json(
+      { nodes, revision, nextId: memoNextId(content) },
+      { headers: { ETag: etag(revision) } }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** PUT: replace the whole tree */
+export async function putTree(doc: string, request: Request): Promise<NextResponse> {
+  try {
+    const body = await jsonBody(request);
+    const nodes = validateTree(body.nodes);
+    return await withWriteLock(docPath(doc), () => {
+      const current = readDoc(doc);
+      const rejected =
+        staleRevision(request, current) ??
+        newerFormat(current) ??
+        guardMassDeletion(doc, current, nodes, body.confirmMassDeletion === true);
+      if (rejected) return rejected;
+
+      const content = serializeMemo(nodes, memoNextId(current));
+      pinIfLossy(doc, current);
+      ensureWeeklyBackup(doc);
+      rotateBackups(doc);
+      recordSave(doc, current, content, null, requestAuthor(request));
+      return saved(doc, content);
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** PATCH: apply incremental ops to the stored tree */
+export async function patchTree(doc: string, request: Request): Promise<NextResponse> {
+  try {
+    const body = await jsonBody(request);
+    const ops = validateOps(body.ops);
+    return await withWriteLock(docPath(doc), () => {
+      const current = readDoc(doc);
+      const rejected = staleRevision(request, current) ?? newerFormat(current);
+      if (rejected) return rejected;
+
+      let nodes: TreeNodeData[];
+      try {
+        nodes = applyOps(parseMemo(current), ops);
+      } catch (error) {
+        // Ops were computed against a different tree than the one on disk
+        const message = error instanceof Error ? error.message : "Invalid ops";
+        return NextResponse.json({ error: message }, { status: 422 });
+      }
+      // e.g. ops that delete every node
+      nodes = validateTree(nodes);
+      const guarded = guardMassDeletion(doc, current, nodes, body.confirmMassDeletion === true);
+      if (guarded) return guarded;
+
+      const content = serializeMemo(nodes, memoNextId(current));
+      pinIfLossy(doc, current);
+      ensureWeeklyBackup(doc);
+      rotateBackupsIfStale(doc);
+      recordSave(doc, current, content, ops, requestAuthor(request));
+      return saved(doc, content);
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** GET restore: list rotating, weekly and pinned backups, newest first */
+export function listBackups(doc: string): NextResponse {
+  try {
+    const dir = dataDir();
+    const backups = fs
+      .readdirSync(dir)
+      .map((name) => ({ name, kind: backupKind(doc, name) }))
+      .filter((b) => b.kind !== null)
+      .map(({ name, kind }) => {
+        const file = path.join(dir, name);
+        const stat = fs.statSync(file);
+        const nodes = countAllNodes(parseMemo(fs.readFileSync(file, "utf-8")));
+        return { name, kind, mtime: stat.mtime.toISOString(), size: stat.size, nodes };
+      })
+      .sort((a, b) => b.mtime.localeCompare(a.mtime));
+    return NextResponse.json({ backups });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** GET restore?backup=: a backup's (or commit's) tree, for browsing it read-only */
+export async function getBackupTree(doc: string, backup: string): Promise<NextResponse> {
+  try {
+    const content = await readVersion(doc, backup);
+    if (typeof content !== "string") return content;
+    return NextResponse.json({ nodes: parseMemo(content) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Replace the document with restored content, backing up and journaling the
+ * current one. The current id mark is kept, so nodes created after the
+ * restored version can't have their ids reused.
+ */
+function restored(doc: string, restoredContent: string, author?: string): NextResponse {
+  const current = readDoc(doc);
+  const content = withNextId(restoredContent, memoNextId(current));
+  // Keep the state being restored over as the newest backup
+  rotateBackups(doc);
+  recordSave(doc, current, content, null, author);
+  writeDoc(doc, content);
+  scheduleCommit();
+
+  // Parse and return the restored tree
+  const nodes = parseMemo(content);
+  const revision = revisionOf(content);
+  return NextResponse.json(
+    { nodes, revision, nextId: memoNextId(content) },
+    { headers: { ETag: etag(revision) } }
+  );
+}
+
+/**
+ * POST restore: back up the current tree, then restore a specific backup or
+ * commit ({ backup }) or the state recorded in the journal at a time ({ at })
+ */
+export async function restoreBackup(doc: string, request: Request): Promise<NextResponse> {
+  try {
+    const { backup, at } = await jsonBody(request);
+
+    if (at !== undefined) {
+      const time = typeof at === "string" ? Date.parse(at) : NaN;
+      if (Number.isNaN(time)) {
+        return NextResponse.json({ error: "Invalid time" }, { status: 400 });
+      }
+      return await withWriteLock(docPath(doc), () => {
+        const state = stateAt(doc, time);
+        if (!state) {
+          return NextResponse.json({ error: "Journal has no state at that time" }, { status: 404 });
+        }
+        return restored(doc, serializeMemo(state.nodes), requestAuthor(request));
+      });
+    }
+
+    if (typeof backup !== "string" || backup === "current") {
+      return NextResponse.json({ error: "Invalid backup name" }, { status: 400 });
+    }
+
+    // Backups are renamed by rotation, so read them under the same lock
+    return await withWriteLock(docPath(doc), async () => {
+      // Read before rotating: rotation may rename or drop this very file
+      const content = await readVersion(doc, backup);
+      if (typeof content !== "string") return content;
+      const rejected = newerFormat(content);
+      if (rejected) return rejected;
+      return restored(doc, content, requestAuthor(request));
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** GET journal: the journal's time span, or with ?at= the tree as it was then */
+export function getJournal(doc: string, request: Request): NextResponse {
+  try {
+    const at = new URL(request.url).searchParams.get("at");
+    if (at === null) return NextResponse.json({ journal: journalInfo(doc) });
+
+    const time = Date.parse(at);
+    if (Number.isNaN(time)) {
+      return NextResponse.json({ error: "Invalid time" }, { status: 400 });
+    }
+    const state = stateAt(doc, time);
+    if (!state) {
+      return NextResponse.json({ error: "Journal has no state at that time" }, { status: 404 });
+    }
+    return NextResponse.json(state);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** POST journal: compact it now */
+export async function compactJournalNow(doc: string): Promise<NextResponse> {
+  try {
+    return await withWriteLock(docPath(doc), () => {
+      const dropped = compactJournal(doc);
+      return NextResponse.json({ dropped, journal: journalInfo(doc) });
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** GET integrity: anomalies in the stored file, by line */
+export function getIntegrity(doc: string): NextResponse {
+  try {
+    return NextResponse.json({ anomalies: checkMemo(readDoc(doc)) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** POST integrity: repair the stored file, backing up and journaling the original */
+export async function repairDoc(doc: string, request: Request): Promise<NextResponse> {
+  try {
+    return await withWriteLock(docPath(doc), () => {
+      const current = readDoc(doc);
+      const rejected = newerFormat(current);
+      if (rejected) return rejected;
+      const { content, anomalies } = repairMemo(current);
+      if (anomalies.length === 0) {
+        return NextResponse.json({ error: "Nothing to repair" }, { status: 400 });
+      }
+      return restored(doc, content, requestAuthor(request));
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** GET retention: the policy and which backups pruning would keep and delete (a dry run) */
+export function getRetention(doc: string): NextResponse {
+  try {
+    return NextResponse.json({ policy: retentionPolicy(), ...pruneBackups(doc, true) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** POST retention: prune the backups now */
+export async function pruneBackupsNow(doc: string): Promise<NextResponse> {
+  try {
+    return await withWriteLock(docPath(doc), () => {
+      const { remove } = pruneBackups(doc);
+      return NextResponse.json({ removed: remove });
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * GET diff: structural diff between two versions ("current", a backup or a
+ * commit). Nodes are matched by id, so a version saved before ids were stored
+ * (whose nodes parseMemo numbers by position) can't be diffed; the response
+ * then lists those versions as withoutIds instead of a diff.
+ */
+export async function diffVersions(doc: string, request: Request): Promise<NextResponse> {
+  try {
+    const params = new URL(request.url).searchParams;
+    const fromVersion = params.get("from") ?? "current";
+    const toVersion = params.get("to") ?? "current";
+    const from = await readVersion(doc, fromVersion);
+    if (typeof from !== "string") return from;
+    const to = await readVersion(doc, toVersion);
+    if (typeof to !== "string") return to;
+    const fromNodes = parseMemo(from);
+    const toNodes = parseMemo(to);
+    const withoutIds = [
+      { version: fromVersion, content: from, nodes: fromNodes },
+      { version: toVersion, content: to, nodes: toNodes },
+    ]
+      .filter((v) => countAllNodes(v.nodes) > 1 && storedIds(v.content).size === 0)
+      .map((v) => v.version);
+    if (withoutIds.length > 0) return NextResponse.json({ withoutIds });
+    return NextResponse.json(diffTrees(fromNodes, toNodes));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * GET history: commits of the document when git versioning is on, or with
+ * ?node= the earlier texts of one node
+ */
+export async function getHistory(doc: string, request: Request): Promise<NextResponse> {
+  try {
+    const node = new URL(request.url).searchParams.get("node");
+    if (node !== null) {
+      const id = Number(node);
+      if (!Number.isInteger(id) || id <= 0) {
+        return NextResponse.json({ error: "Invalid node id" }, { status: 400 });
+      }
+      return NextResponse.json({ node: id, versions: await nodeHistory(doc, id) });
+    }
+
+    if (!gitEnabled()) return NextResponse.json({ enabled: false, commits: [] });
+    // Include the burst of saves that hasn't been committed yet
+    await flushCommit();
+    return NextResponse.json({ enabled: true, commits: await history(doc) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST generate: write the !{file:path} nodes under ?node= (or in the whole
+ * document) into the output directory. ?dryRun=1 only reports what would be
+ * written, with diffs against the files already there.
+ */
+export async function generateDocFiles(doc: string, request: Request): Promise<NextResponse> {
+  try {
+    const root = outputDir();
+    if (root === null) {
+      return NextResponse.json(
+        { error: "No output directory: set outputDir in locus.config.json or LOCUS_OUTPUT_DIR" },
+        { status: 400 }
+      );
+    }
+    const params = new URL(request.url).searchParams;
+    const nodes = parseMemo(readDoc(doc));
+    let scope = nodes;
+    const node = params.get("node");
+    if (node !== null) {
+      const id = Number(node);
+      if (!Number.isInteger(id) || id <= 0) {
+        return NextResponse.json({ error: "Invalid node id" }, { status: 400 });
+      }
+      const found = findNode(nodes, id);
+      if (!found) return NextResponse.json({ error: `Node not found: ${id}` }, { status: 404 });
+      scope = [found];
+    }
+    if (params.get("dryRun") === "1") {
+      return NextResponse.json(generateFiles(root, nodes, scope, true));
+    }
+    return await withWriteLock(root, () => NextResponse.json(generateFiles(root, nodes, scope)));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Keep idle event streams from being closed by proxies */
+const HEARTBEAT_MS = 25 * 1000;
+
+/**
+ * GET events: Server-Sent Events stream with a "change" event carrying the
+ * revision whenever the stored file changes, from any tab or from outside the
+ * app. The current revision is sent on connect, so a reconnecting client
+ * catches up on what it missed.
+ */
+export function docEvents(doc: string, request: Request): Response {
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const change = (revision: string) =>
+        send(`event: change\ndata: ${JSON.stringify({ revision })}\n\n`);
+      const unwatch = watchDoc(doc, change);
+      const heartbeat = setInterval(() => send(": ping\n\n"), HEARTBEAT_MS);
+      stop = () => {
+        clearInterval(heartbeat);
+        unwatch();
+      };
+      request.signal.addEventListener("abort", () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already cancelled
+        }
+      });
+      change(revisionOf(readDoc(doc)));
+    },
+    cancel() {
+      stop();
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -2,7 +2,9 @@ import { describe, it, expect } from "vitest";
 import {
   filterTree, copyNode, pasteNode, findNode, nextId, moveNode,
   addSiblingBefore, addChildNodeFirst, treeToText, textToTree, treeToMarkdown, toggleOl,
-  countAllNodes, getSiblingRange, deleteNodes, markdownToTree,
+  countAllNodes, getSiblingRange, deleteNodes, markdownToTree, isMassDeletion,
+  treeToHtml, expandRefs, expandSubtree, expandToNode,
+  duplicateNode, duplicateShallow, duplicateNodes,
 } from "./treeUtils";
 import { TreeNodeData } from "../components/TreeNode";
 
@@ -120,12 +122,94 @@ describe("copyNode / pasteNode（コピー＆ペースト）", () => {
     expect(parent.children[1].children[0].id).not.toBe(3);
   });
 
+  it("同じノードを何度貼り付けてもIDは重ならない", () => {
+    const copied = copyNode(testTree, 1)!;
+    let tree = pasteNode(testTree, 1, copied, nextId(testTree));
+    tree = pasteNode(tree, 1, copied, nextId(tree));
+    const all: number[] = [];
+    const walk = (list: TreeNodeData[]) => list.forEach((n) => { all.push(n.id); walk(n.children); });
+    walk(tree);
+    expect(all).toHaveLength(countAllNodes(testTree) + 2 * 5);
+    expect(new Set(all).size).toBe(all.length);
+  });
+
+  it("貼り付けたノードはエンティティ名を引き継がず、名前は一意のまま", () => {
+    const named = JSON.parse(JSON.stringify(testTree)) as TreeNodeData[];
+    named[1].entity = "タスク";
+    named[1].children[0].entity = "買い物";
+    const copied = copyNode(named, 6)!;
+    const tree = pasteNode(named, 1, copied, 100, "child");
+    const names: string[] = [];
+    const walk = (list: TreeNodeData[]) =>
+      list.forEach((n) => { if (n.entity !== undefined) names.push(n.entity); walk(n.children); });
+    walk(tree);
+    expect(names.sort()).toEqual(["タスク", "買い物"]);
+    expect(findNode(tree, 6)!.entity).toBe("タスク");
+    expect(findNode(tree, 100)!.text).toBe(named[1].text);
+  });
+
+  it("子として貼り付けると末尾の子になり、indent が合わせられる", () => {
+    // 「タスク」(id:6, indent 1) を「配色ルール」(id:3, indent 3) の子に
+    const copied = copyNode(testTree, 6)!;
+    const startId = nextId(testTree);
+    const result = pasteNode(testTree, 3, copied, startId, "child");
+    const target = findNode(result, 3)!;
+    expect(target.children.map((c) => c.text)).toEqual(["タスク"]);
+    expect(target.children[0].id).toBe(startId);
+    expect(target.children[0].indent).toBe(4);
+    expect(target.children[0].children[0].indent).toBe(5);
+    // 元のツリーは変更されない
+    expect(findNode(testTree, 3)!.children).toEqual([]);
+  });
+
   it("存在しないノードをコピーするとnullが返る", () => {
     const copied = copyNode(testTree, 999);
     expect(copied).toBeNull();
   });
 });
 
+describe("duplicateNode / duplicateShallow / duplicateNodes（複製）", () => {
+  it("子孫ごと複製して新しいIDで直後に置く", () => {
+    const startId = nextId(testTree);
+    const { tree, copies } = duplicateNode(testTree, 2, startId);
+    expect(findNode(tree, 1)!.children.map((c) => c.text)).toEqual([
+      "デザイン", "デザイン", "コーディング",
+    ]);
+    const copy = findNode(tree, 1)!.children[1];
+    expect(copy.id).toBe(startId);
+    expect(copy.children.map((c) => [c.id, c.text])).toEqual([[startId + 1, "配色ルール"]]);
+    expect([...copies]).toEqual([[2, startId]]);
+    // 元のツリーは変更されない
+    expect(findNode(testTree, 1)!.children).toHaveLength(2);
+  });
+
+  it("これだけ複製は子孫を含まない", () => {
+    const closed = JSON.parse(JSON.stringify(testTree)) as TreeNodeData[];
+    closed[0].children[0].closed = true;
+    const { tree } = duplicateShallow(closed, 2, 100);
+    expect(findNode(tree, 100)).toMatchObject({ text: "デザイン", closed: false, children: [] });
+    expect(findNode(tree, 2)!.children).toHaveLength(1);
+  });
+
+  it("複数選択した兄弟はまとめて最後の選択ノードの後に複製する", () => {
+    const { tree, copies } = duplicateNodes(testTree, [2, 4, 5], 100);
+    expect(findNode(tree, 1)!.children.map((c) => c.id)).toEqual([2, 4, 100, 102]);
+    // 選択した祖先の複製に含まれる子孫は重ねて複製しない
+    expect([...copies.keys()]).toEqual([2, 4]);
+    expect(findNode(tree, 4)!.children).toHaveLength(1);
+  });
+
+  it("複製はエンティティ名を引き継がない", () => {
+    const named = JSON.parse(JSON.stringify(testTree)) as TreeNodeData[];
+    named[1].entity = "タスク";
+    named[1].children[0].entity = "買い物";
+    const { tree } = duplicateNode(named, 6, 100);
+    expect(findNode(tree, 100)!.entity).toBeUndefined();
+    expect(findNode(tree, 101)!.entity).toBeUndefined();
+    expect(findNode(tree, 6)!.entity).toBe("タスク");
+  });
+});
+
 describe("moveNode（ドラッグ＆ドロップ移動）", () => {
   it("兄弟として挿入: ノードを別のノードの後に移動できる", () => {
     // 「タスク」(id:6) を「覚書」(id:1) の後に兄弟として移動
@@ -300,6 +384,116 @@ describe("treeToMarkdown（Markdown展開）", () => {
   });
 });
 
+describe("treeToHtml（HTML出力）", () => {
+  it("ルートが見出し、子孫が入れ子のリストになり、特殊文字はエスケープされる", () => {
+    const tree: TreeNodeData = {
+      id: 1, text: "手順 <1>", indent: 0, closed: false, ol: true, children: [
+        {
+          id: 2, text: "準備&確認", indent: 1, closed: false, children: [
+            { id: 3, text: "1行目\n2行目", indent: 2, closed: false, children: [] },
+          ],
+        },
+      ],
+    };
+    expect(treeToHtml(tree)).toBe(
+      "<h1>手順 &lt;1&gt;</h1>\n" +
+        "<ol>\n" +
+        "  <li>準備&amp;確認\n" +
+        "    <ul>\n" +
+        "      <li>1行目<br>2行目</li>\n" +
+        "    </ul>\n" +
+        "  </li>\n" +
+        "</ol>\n"
+    );
+  });
+});
+
+describe("expandRefs（参照の再帰展開）", () => {
+  // 文書
+  //   !{ref:挨拶} の後に本文
+  // 挨拶 (entity)
+  //   !{ref:署名}
+  // 署名 (entity)
+  //   山田
+  const refTree: TreeNodeData[] = [
+    {
+      id: 1, text: "文書", indent: 0, closed: false, children: [
+        { id: 2, text: "!{ref:挨拶} の後に本文", indent: 1, closed: false, children: [] },
+      ],
+    },
+    {
+      id: 3, text: "こんにちは", indent: 0, closed: true, entity: "挨拶", children: [
+        { id: 4, text: "!{ref:署名}", indent: 1, closed: false, children: [] },
+      ],
+    },
+    {
+      id: 5, text: "署名", indent: 0, closed: false, entity: "署名", children: [
+        { id: 6, text: "山田", indent: 1, closed: false, children: [] },
+      ],
+    },
+  ];
+
+  it("参照を実体の本文に置き換え、実体の子を参照元の子として再帰的に展開する", () => {
+    const { node, problems } = expandRefs(refTree, refTree[0]);
+    expect(problems).toEqual([]);
+    expect(treeToText([node])).toBe("文書\n  こんにちは の後に本文\n    署名\n      山田\n");
+  });
+
+  it("深さの上限を超える参照はそのまま残して報告する", () => {
+    const { node, problems } = expandRefs(refTree, refTree[0], 1);
+    expect(treeToText([node])).toBe("文書\n  こんにちは の後に本文\n    !{ref:署名}\n");
+    expect(problems).toEqual([{ kind: "depth", nodeId: 4, name: "署名", path: ["挨拶", "署名"] }]);
+  });
+
+  it("循環参照と存在しない参照を報告する", () => {
+    const cyclic = cloneTreeWith(refTree, 6, "!{ref:挨拶} と !{ref:不明}");
+    const { problems } = expandRefs(cyclic, cyclic[0]);
+    expect(problems).toEqual([
+      { kind: "cycle", nodeId: 6, name: "挨拶", path: ["挨拶", "署名", "挨拶"] },
+      { kind: "missing", nodeId: 6, name: "不明", path: ["挨拶", "署名", "不明"] },
+    ]);
+  });
+
+  it("子プレースホルダはエンティティの n 番目の子だけを展開する", () => {
+    const tree = cloneTreeWith(refTree, 2, "!{child:署名:1} と !{child:署名:3}");
+    const { node, problems } = expandRefs(tree, tree[0]);
+    expect(treeToText([node])).toBe("文書\n  山田 と !{child:署名:3}\n");
+    expect(problems).toEqual([{ kind: "index", nodeId: 2, name: "署名:3", path: ["署名:3"] }]);
+  });
+
+  it("自分自身を取り込む子プレースホルダは循環として報告する", () => {
+    const tree = cloneTreeWith(refTree, 6, "山田 !{child:署名:1}");
+    const { problems } = expandRefs(tree, tree[2]);
+    expect(problems).toEqual([
+      { kind: "cycle", nodeId: 6, name: "署名:1", path: ["署名", "署名:1", "署名:1"] },
+    ]);
+  });
+
+  it("expandSubtree は形式を選んで出力する", () => {
+    expect(expandSubtree(refTree, 1, "markdown")?.output).toBe(
+      "# 文書\n\n- こんにちは の後に本文\n  - 署名\n    - 山田\n"
+    );
+    expect(expandSubtree(refTree, 1, "html")?.output).toContain("<li>山田</li>");
+    expect(expandSubtree(refTree, 99, "text")).toBeNull();
+  });
+
+  /** Copy of tree with one node's text replaced */
+  function cloneTreeWith(tree: TreeNodeData[], id: number, text: string): TreeNodeData[] {
+    const copy = JSON.parse(JSON.stringify(tree)) as TreeNodeData[];
+    findNode(copy, id)!.text = text;
+    return copy;
+  }
+});
+
+describe("expandToNode（祖先の展開）", () => {
+  it("折り畳まれた祖先を開き、開いていれば同じ配列を返す", () => {
+    const closed = [{ ...testTree[0], closed: true }, testTree[1]];
+    const opened = expandToNode(closed, 3);
+    expect(opened[0].closed).toBe(false);
+    expect(expandToNode(testTree, 3)).toBe(testTree);
+  });
+});
+
 describe("toggleOl（OLフラグ切替）", () => {
   it("OLフラグがtrueに設定される", () => {
     const result = toggleOl(testTree, 1);
@@ -332,6 +526,19 @@ describe("countAllNodes", () => {
   });
 });
 
+describe("isMassDeletion（大量削除の判定）", () => {
+  it("10%以上の減少は確認が必要", () => {
+    expect(isMassDeletion(100, 90)).toBe(true);
+    expect(isMassDeletion(100, 0)).toBe(true);
+  });
+
+  it("10%未満の減少や増加は確認不要", () => {
+    expect(isMassDeletion(100, 91)).toBe(false);
+    expect(isMassDeletion(100, 150)).toBe(false);
+    expect(isMassDeletion(0, 0)).toBe(false);
+  });
+});
+
 describe("getSiblingRange（兄弟範囲取得）", () => {
   it("同じ親の兄弟間の全IDを返す", () => {
     // デザイン(2) と コーディング(4) は覚書(1)の子
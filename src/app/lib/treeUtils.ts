@@ -1,4 +1,5 @@
 import { TreeNodeData } from "../components/TreeNode";
+import { entityIndex, MARKER_PATTERN, markerLabel, markerPart, resolveRef } from "./entities";
 
 /** Deep clone the tree */
 export function cloneTree(nodes: TreeNodeData[]): TreeNodeData[] {
@@ -11,6 +12,8 @@ export function cloneTree(nodes: TreeNodeData[]): TreeNodeData[] {
       children: cloneTree(n.children),
     };
     if (n.ol) clone.ol = true;
+    if (n.entity !== undefined) clone.entity = n.entity;
+    if (n.directives) clone.directives = [...n.directives];
     return clone;
   });
 }
@@ -70,9 +73,12 @@ export function flattenVisible(nodes: TreeNodeData[]): TreeNodeData[] {
   return result;
 }
 
-/** Get the next available id */
-export function nextId(nodes: TreeNodeData[]): number {
-  let max = 0;
+/**
+ * Get the next available id: above every id in the tree and at least floor,
+ * the document's high-water mark, so ids of deleted nodes are never reused
+ */
+export function nextId(nodes: TreeNodeData[], floor = 1): number {
+  let max = floor - 1;
   function walk(list: TreeNodeData[]) {
     for (const n of list) {
       if (n.id > max) max = n.id;
@@ -105,6 +111,31 @@ export function setNodeClosed(
   return tree;
 }
 
+/** Open every collapsed ancestor of a node so it is visible; returns nodes itself if none was closed */
+export function expandToNode(nodes: TreeNodeData[], id: number): TreeNodeData[] {
+  const path: number[] = [];
+  function walk(list: TreeNodeData[]): boolean {
+    for (const node of list) {
+      if (node.id === id) return true;
+      path.push(node.id);
+      if (walk(node.children)) return true;
+      path.pop();
+    }
+    return false;
+  }
+  if (!walk(nodes)) return nodes;
+  const tree = cloneTree(nodes);
+  let changed = false;
+  for (const ancestorId of path) {
+    const ancestor = findNode(tree, ancestorId);
+    if (ancestor?.closed) {
+      ancestor.closed = false;
+      changed = true;
+    }
+  }
+  return changed ? tree : nodes;
+}
+
 /** Update the text of a node */
 export function updateNodeText(
   nodes: TreeNodeData[],
@@ -329,22 +360,31 @@ export function copyNode(
   return cloneTree([node])[0];
 }
 
-/** Reassign IDs to a node and all its descendants */
-function reassignIds(node: TreeNodeData, startId: number): number {
+/**
+ * Make a copied subtree into new nodes: fresh ids from startId, and no entity
+ * names, which must stay unique. Returns the next unused id.
+ */
+function asNewNodes(node: TreeNodeData, startId: number): number {
   node.id = startId;
+  delete node.entity;
   let nextIdVal = startId + 1;
   for (const child of node.children) {
-    nextIdVal = reassignIds(child, nextIdVal);
+    nextIdVal = asNewNodes(child, nextIdVal);
   }
   return nextIdVal;
 }
 
-/** Paste a copied node as a sibling after the target node */
+/**
+ * Paste a copied node as a sibling after the target node, or as the target's
+ * last child with position "child". The pasted nodes get new ids and no
+ * entity names.
+ */
 export function pasteNode(
   nodes: TreeNodeData[],
   targetId: number,
   copied: TreeNodeData,
-  startId: number
+  startId: number,
+  position: "after" | "child" = "after"
 ): TreeNodeData[] {
   const tree = cloneTree(nodes);
   const ctx = findParentContext(tree, targetId);
@@ -353,7 +393,7 @@ export function pasteNode(
   const clone = cloneTree([copied])[0];
   // Adjust indent to match target
   const target = ctx.siblings[ctx.index];
-  const indentDelta = target.indent - clone.indent;
+  const indentDelta = target.indent + (position === "child" ? 1 : 0) - clone.indent;
   function adjustIndent(n: TreeNodeData, delta: number) {
     n.indent += delta;
     n.children.forEach((c) => adjustIndent(c, delta));
@@ -361,13 +401,85 @@ export function pasteNode(
   adjustIndent(clone, indentDelta);
 
   // Assign new IDs
-  reassignIds(clone, startId);
+  asNewNodes(clone, startId);
 
-  // Insert after target
-  ctx.siblings.splice(ctx.index + 1, 0, clone);
+  if (position === "child") {
+    // Open the target so the pasted node is visible
+    target.closed = false;
+    target.children.push(clone);
+  } else {
+    // Insert after target
+    ctx.siblings.splice(ctx.index + 1, 0, clone);
+  }
   return tree;
 }
 
+/**
+ * Duplicate nodes with fresh ids, deep with their descendants or shallow
+ * without. A copy goes right after its original; siblings duplicated together
+ * are copied as a block after the last of them. Copies don't keep entity
+ * names, which must stay unique. Returns the tree and each original's copy id.
+ */
+export function duplicateNodes(
+  nodes: TreeNodeData[],
+  ids: number[],
+  startId: number,
+  deep: boolean = true
+): { tree: TreeNodeData[]; copies: Map<number, number> } {
+  const tree = cloneTree(nodes);
+  const wanted = new Set(ids);
+  const copies = new Map<number, number>();
+  let next = startId;
+
+  function copyOf(node: TreeNodeData): TreeNodeData {
+    const copy = cloneTree([node])[0];
+    if (!deep) {
+      copy.children = [];
+      copy.closed = false;
+    }
+    next = asNewNodes(copy, next);
+    copies.set(node.id, copy.id);
+    return copy;
+  }
+
+  function walk(list: TreeNodeData[]) {
+    const block: TreeNodeData[] = [];
+    let last = -1;
+    list.forEach((node, i) => {
+      if (!wanted.has(node.id)) return;
+      block.push(copyOf(node));
+      last = i;
+    });
+    // A deep copy already covers whatever is selected inside it
+    for (const node of list) {
+      if (!(deep && wanted.has(node.id))) walk(node.children);
+    }
+    if (block.length > 0) list.splice(last + 1, 0, ...block);
+  }
+
+  walk(tree);
+  return { tree, copies };
+}
+
+/** Duplicate one node, with its descendants unless deep is false */
+export function duplicateNode(
+  nodes: TreeNodeData[],
+  id: number,
+  startId: number,
+  deep: boolean = true
+): { tree: TreeNodeData[]; copies: Map<number, number> } {
+  return duplicateNodes(nodes, [id], startId, deep);
+}
+
+/** Duplicate one node without its descendants */
+export function duplicateShallow(
+  nodes: TreeNodeData[],
+  id: number,
+  startId: number
+): { tree: TreeNodeData[]; copies: Map<number, number> } {
+  return duplicateNodes(nodes, [id], startId, false);
+}
+
 /** Check if ancestorId is an ancestor of nodeId */
 function isAncestor(
   nodes: TreeNodeData[],
@@ -527,6 +639,123 @@ export function treeToMarkdown(
   return result;
 }
 
+/** Escape text for use in HTML element content */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Convert a subtree to HTML: the node as a heading, its descendants as nested lists */
+export function treeToHtml(node: TreeNodeData): string {
+  const text = (t: string) => escapeHtml(t).replace(/\n/g, "<br>");
+  function list(parent: TreeNodeData, pad: string): string {
+    if (parent.children.length === 0) return "";
+    const tag = parent.ol ? "ol" : "ul";
+    const items = parent.children
+      .map((child) => {
+        const nested = list(child, pad + "    ");
+        return `${pad}  <li>${text(child.text)}${nested ? `\n${nested}${pad}  ` : ""}</li>\n`;
+      })
+      .join("");
+    return `${pad}<${tag}>\n${items}${pad}</${tag}>\n`;
+  }
+  return `<h1>${text(node.text)}</h1>\n${list(node, "")}`;
+}
+
+/** How many references deep expansion follows by default */
+export const MAX_EXPANSION_DEPTH = 10;
+
+/**
+ * A reference expansion left as written:
+ *   missing  no entity has the name
+ *   index    the entity has no such child (!{child:Name:n})
+ *   cycle    the entity is already being expanded further out
+ *   depth    more than maxDepth references deep
+ */
+export type ExpansionProblem = {
+  kind: "missing" | "index" | "cycle" | "depth";
+  /** Node whose text holds the reference */
+  nodeId: number;
+  /** The reference as written: Name, or Name:n for a child placeholder */
+  name: string;
+  /** References being expanded, outermost first, ending with name */
+  path: string[];
+};
+
+/**
+ * Copy of the subtree with every !{ref:Name} replaced by the entity's text,
+ * and the entity's children appended to the referring node's children,
+ * recursively. !{child:Name:n} does the same with the entity's n-th child.
+ * References that can't be expanded stay as written and are reported.
+ * nodes is the whole tree, where entities are looked up.
+ */
+export function expandRefs(
+  nodes: TreeNodeData[],
+  node: TreeNodeData,
+  maxDepth: number = MAX_EXPANSION_DEPTH
+): { node: TreeNodeData; problems: ExpansionProblem[] } {
+  const { nodes: entities } = entityIndex(nodes);
+  const problems: ExpansionProblem[] = [];
+
+  function expand(n: TreeNodeData, stack: string[], refDepth: number, indent: number): TreeNodeData {
+    const inner = n.entity !== undefined ? [...stack, n.entity] : stack;
+    const appended: TreeNodeData[] = [];
+    const text = n.text.replace(MARKER_PATTERN, (marker: string, ...groups: string[]) => {
+      const part = markerPart([marker, ...groups]);
+      const name = markerLabel(part);
+      const report = (kind: ExpansionProblem["kind"]) => {
+        problems.push({ kind, nodeId: n.id, name, path: [...inner, name] });
+        return marker;
+      };
+      const resolved = resolveRef(part, entities);
+      if ("error" in resolved) return report(entities.has(part.name) ? "index" : "missing");
+      if (inner.includes(name)) return report("cycle");
+      if (refDepth >= maxDepth) return report("depth");
+      // A child is tracked by its label, so it can't pull itself in either
+      const within = part.type === "child" ? [...inner, name] : inner;
+      const expanded = expand(resolved.node, within, refDepth + 1, indent);
+      appended.push(...expanded.children);
+      return expanded.text;
+    });
+    const children = [
+      ...n.children.map((child) => expand(child, inner, refDepth, indent + 1)),
+      ...appended,
+    ];
+    const copy: TreeNodeData = { id: n.id, text, indent, closed: false, children };
+    if (n.ol) copy.ol = true;
+    return copy;
+  }
+
+  return { node: expand(node, [], 0, node.indent), problems };
+}
+
+export type ExpansionFormat = "html" | "text" | "markdown";
+
+/**
+ * Expand the references in the subtree of id and render it, or null if
+ * there is no such node
+ */
+export function expandSubtree(
+  nodes: TreeNodeData[],
+  id: number,
+  format: ExpansionFormat,
+  maxDepth: number = MAX_EXPANSION_DEPTH
+): { output: string; problems: ExpansionProblem[] } | null {
+  const node = findNode(nodes, id);
+  if (!node) return null;
+  const { node: expanded, problems } = expandRefs(nodes, node, maxDepth);
+  const output =
+    format === "html"
+      ? treeToHtml(expanded)
+      : format === "markdown"
+        ? treeToMarkdown(expanded)
+        : treeToText([expanded]);
+  return { output, problems };
+}
+
 /** Parse Markdown into tree nodes */
 export function markdownToTree(
   md: string,
@@ -637,6 +866,14 @@ export function countAllNodes(nodes: TreeNodeData[]): number {
   return count;
 }
 
+/** Share of the tree that may disappear in one save without confirmation */
+export const MASS_DELETION_RATIO = 0.1;
+
+/** True if going from prevCount to newCount nodes needs confirmation */
+export function isMassDeletion(prevCount: number, newCount: number): boolean {
+  return prevCount > 0 && (prevCount - newCount) / prevCount >= MASS_DELETION_RATIO;
+}
+
 /** Toggle OL (ordered list) flag on a node */
 export function toggleOl(
   nodes: TreeNodeData[],
@@ -648,6 +885,21 @@ export function toggleOl(
   return tree;
 }
 
+/** Declare a node as the entity name, or remove its name when name is null */
+export function setNodeEntity(
+  nodes: TreeNodeData[],
+  id: number,
+  name: string | null
+): TreeNodeData[] {
+  const tree = cloneTree(nodes);
+  const node = findNode(tree, id);
+  if (node) {
+    if (name === null) delete node.entity;
+    else node.entity = name;
+  }
+  return tree;
+}
+
 /** Get the IDs of sibling nodes between id1 and id2 (inclusive).
  *  Returns null if id1 and id2 are not siblings (different parent). */
 export function getSiblingRange(
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { validateTree, validateOps, TreeValidationError } from "./treeValidation";
+
+function errorPath(fn: () => unknown): string | null {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof TreeValidationError) return error.path;
+    throw error;
+  }
+  return null;
+}
+
+const node = (id: number, text: string, children: unknown[] = [], indent = 0) => ({
+  id, text, indent, closed: false, children,
+});
+
+describe("validateTree（ツリーの検証）", () => {
+  it("正しいツリーはそのまま通り、indent は深さに揃えられる", () => {
+    const nodes = validateTree([node(1, "root", [node(2, "a", [node(3, "b", [], 9)], 5)])]);
+    expect(nodes[0].indent).toBe(0);
+    expect(nodes[0].children[0].indent).toBe(1);
+    expect(nodes[0].children[0].children[0].indent).toBe(2);
+  });
+
+  it("未知のフィールドは落とされる", () => {
+    const [root] = validateTree([{ ...node(1, "root"), extra: "x", ol: false }]);
+    expect(root).toEqual({ id: 1, text: "root", indent: 0, closed: false, children: [] });
+  });
+
+  it("空の配列は拒否される", () => {
+    expect(errorPath(() => validateTree([]))).toBe("nodes");
+  });
+
+  it("配列でなければ拒否される", () => {
+    expect(errorPath(() => validateTree(undefined))).toBe("nodes");
+  });
+
+  it("文字列でないテキストはエラー位置を示す", () => {
+    const tree = [node(1, "root", [node(2, "a"), node(3, "b", [{ ...node(4, "c"), text: 42 }])])];
+    expect(errorPath(() => validateTree(tree))).toBe("nodes[0].children[1].children[0].text");
+  });
+
+  it("重複したIDは拒否される", () => {
+    const tree = [node(1, "root", [node(2, "a"), node(2, "b")])];
+    expect(errorPath(() => validateTree(tree))).toBe("nodes[0].children[1].id");
+  });
+
+  it("不正なIDや closed は拒否される", () => {
+    expect(errorPath(() => validateTree([{ ...node(1, "root"), id: "1" }]))).toBe("nodes[0].id");
+    expect(errorPath(() => validateTree([{ ...node(1, "root"), id: 0 }]))).toBe("nodes[0].id");
+    expect(errorPath(() => validateTree([{ ...node(1, "root"), closed: "yes" }]))).toBe(
+      "nodes[0].closed"
+    );
+  });
+
+  it("ディレクティブは保持可能な形式のみ受け付ける", () => {
+    const ok = validateTree([{ ...node(1, "root"), directives: ["!{future:x}"] }]);
+    expect(ok[0].directives).toEqual(["!{future:x}"]);
+    for (const bad of ["!{id:5}", "!{close}", "text", "!{a}\n!{b}"]) {
+      expect(errorPath(() => validateTree([{ ...node(1, "root"), directives: [bad] }]))).toBe(
+        "nodes[0].directives[0]"
+      );
+    }
+  });
+});
+
+describe("validateTree（エンティティ名）", () => {
+  it("空白・括弧・コロンを含む名前は拒否される", () => {
+    expect(validateTree([{ ...node(1, "root"), entity: "用語集" }])[0].entity).toBe("用語集");
+    for (const bad of ["", "a b", "a:b", "a}", 1]) {
+      expect(errorPath(() => validateTree([{ ...node(1, "root"), entity: bad }]))).toBe(
+        "nodes[0].entity"
+      );
+    }
+  });
+});
+
+describe("validateOps（操作の検証）", () => {
+  it("正しい操作はそのまま通る", () => {
+    const ops = [
+      { type: "insert", parentId: 1, index: 0, node: node(5, "new") },
+      { type: "move", id: 5, parentId: null, index: 1 },
+      { type: "text", id: 5, text: "x" },
+      { type: "closed", id: 5, closed: true },
+      { type: "ol", id: 5, ol: false },
+      { type: "entity", id: 5, entity: "用語" },
+      { type: "entity", id: 5, entity: null },
+      { type: "delete", id: 5 },
+    ];
+    expect(validateOps(ops)).toEqual(ops);
+  });
+
+  it("不正な操作はエラー位置を示す", () => {
+    expect(errorPath(() => validateOps([{ type: "drop", id: 1 }]))).toBe("ops[0].type");
+    expect(errorPath(() => validateOps([{ type: "delete", id: 1 }, { type: "text", id: 1 }]))).toBe(
+      "ops[1].text"
+    );
+    expect(errorPath(() => validateOps([{ type: "move", id: 1, parentId: null, index: -1 }]))).toBe(
+      "ops[0].index"
+    );
+    const insert = { type: "insert", parentId: null, index: 0, node: node(2, "a", [{ id: 3 }]) };
+    expect(errorPath(() => validateOps([insert]))).toBe("ops[0].node.children[0].text");
+  });
+});
@@ -0,0 +1,167 @@
+import { TreeNodeData } from "../components/TreeNode";
+import { TreeOp } from "./treeOps";
+import { isPreservedDirective } from "./memoCodec";
+import { isValidEntityName } from "./entities";
+
+/** A malformed payload; path points at the offending value, e.g. nodes[3].children[0].text */
+export class TreeValidationError extends Error {
+  constructor(
+    public path: string,
+    message: string
+  ) {
+    super(`${path}: ${message}`);
+    this.name = "TreeValidationError";
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isId(value: unknown): value is number {
+  return typeof value === "number" && Number.isSafeInteger(value) && value > 0;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new TreeValidationError(path, "must be an array");
+  return value;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") throw new TreeValidationError(path, "must be a boolean");
+  return value;
+}
+
+function expectEntity(value: unknown, path: string): string {
+  if (typeof value !== "string" || !isValidEntityName(value)) {
+    throw new TreeValidationError(path, "must be a name without spaces, braces or \":\"");
+  }
+  return value;
+}
+
+function expectIndex(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+    throw new TreeValidationError(path, "must be a non-negative integer");
+  }
+  return value;
+}
+
+/**
+ * Check one node and its subtree and return a clean copy: unknown fields are
+ * dropped and indent is set to depth. ids collects every id seen so far.
+ */
+function validateNode(
+  value: unknown,
+  path: string,
+  depth: number,
+  ids: Set<number>
+): TreeNodeData {
+  if (!isObject(value)) throw new TreeValidationError(path, "must be an object");
+
+  if (!isId(value.id)) throw new TreeValidationError(`${path}.id`, "must be a positive integer");
+  if (ids.has(value.id)) throw new TreeValidationError(`${path}.id`, `duplicate id ${value.id}`);
+  ids.add(value.id);
+
+  if (typeof value.text !== "string") {
+    throw new TreeValidationError(`${path}.text`, "must be a string");
+  }
+  if (value.indent !== undefined && typeof value.indent !== "number") {
+    throw new TreeValidationError(`${path}.indent`, "must be a number");
+  }
+
+  const node: TreeNodeData = {
+    id: value.id,
+    text: value.text,
+    indent: depth,
+    closed: expectBoolean(value.closed, `${path}.closed`),
+    children: [],
+  };
+  if (value.ol !== undefined && expectBoolean(value.ol, `${path}.ol`)) node.ol = true;
+  if (value.entity !== undefined) node.entity = expectEntity(value.entity, `${path}.entity`);
+
+  if (value.directives !== undefined) {
+    const directives = expectArray(value.directives, `${path}.directives`);
+    directives.forEach((d, i) => {
+      if (typeof d !== "string" || !isPreservedDirective(d)) {
+        throw new TreeValidationError(`${path}.directives[${i}]`, "must be a !{name:value} directive");
+      }
+    });
+    if (directives.length > 0) node.directives = directives as string[];
+  }
+
+  node.children = expectArray(value.children, `${path}.children`).map((child, i) =>
+    validateNode(child, `${path}.children[${i}]`, depth + 1, ids)
+  );
+  return node;
+}
+
+/** Validate a whole tree as sent to PUT. Throws TreeValidationError. */
+export function validateTree(value: unknown, path = "nodes"): TreeNodeData[] {
+  const nodes = expectArray(value, path);
+  if (nodes.length === 0) throw new TreeValidationError(path, "must not be empty");
+  const ids = new Set<number>();
+  return nodes.map((node, i) => validateNode(node, `${path}[${i}]`, 0, ids));
+}
+
+function expectParentId(value: unknown, path: string): number | null {
+  if (value === null || isId(value)) return value;
+  throw new TreeValidationError(path, "must be a positive integer or null");
+}
+
+function expectId(value: unknown, path: string): number {
+  if (!isId(value)) throw new TreeValidationError(path, "must be a positive integer");
+  return value;
+}
+
+function validateOp(value: unknown, path: string): TreeOp {
+  if (!isObject(value)) throw new TreeValidationError(path, "must be an object");
+  switch (value.type) {
+    case "insert":
+      return {
+        type: "insert",
+        parentId: expectParentId(value.parentId, `${path}.parentId`),
+        index: expectIndex(value.index, `${path}.index`),
+        // Indent is reset by applyOps to fit wherever the node lands
+        node: validateNode(value.node, `${path}.node`, 0, new Set()),
+      };
+    case "delete":
+      return { type: "delete", id: expectId(value.id, `${path}.id`) };
+    case "move":
+      return {
+        type: "move",
+        id: expectId(value.id, `${path}.id`),
+        parentId: expectParentId(value.parentId, `${path}.parentId`),
+        index: expectIndex(value.index, `${path}.index`),
+      };
+    case "text":
+      if (typeof value.text !== "string") {
+        throw new TreeValidationError(`${path}.text`, "must be a string");
+      }
+      return { type: "text", id: expectId(value.id, `${path}.id`), text: value.text };
+    case "closed":
+      return {
+        type: "closed",
+        id: expectId(value.id, `${path}.id`),
+        closed: expectBoolean(value.closed, `${path}.closed`),
+      };
+    case "ol":
+      return {
+        type: "ol",
+        id: expectId(value.id, `${path}.id`),
+        ol: expectBoolean(value.ol, `${path}.ol`),
+      };
+    case "entity":
+      return {
+        type: "entity",
+        id: expectId(value.id, `${path}.id`),
+        entity: value.entity === null ? null : expectEntity(value.entity, `${path}.entity`),
+      };
+    default:
+      throw new TreeValidationError(`${path}.type`, "must be a known op type");
+  }
+}
+
+/** Validate the ops sent to PATCH. Throws TreeValidationError. */
+export function validateOps(value: unknown, path = "ops"): TreeOp[] {
+  return expectArray(value, path).map((op, i) => validateOp(op, `${path}[${i}]`));
+}
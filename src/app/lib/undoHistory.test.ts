@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeStep, emptyHistory, jumpTo, recordStep, setCheckpoint, treeFingerprint, trimHistory,
+} from "./undoHistory";
+import { addChildNode, updateNodeText } from "./treeUtils";
+import { TreeNodeData } from "../components/TreeNode";
+
+const base: TreeNodeData[] = [
+  { id: 1, text: "root", indent: 0, closed: false, children: [] },
+];
+
+/** Three edits: add node 2, rename it, add node 3 */
+function threeSteps() {
+  const a = addChildNode(base, 1, 2).tree;
+  const b = updateNodeText(a, 2, "renamed");
+  const c = addChildNode(b, 1, 3).tree;
+  let history = emptyHistory();
+  history = recordStep(history, base, a, 1, 50);
+  history = recordStep(history, a, b, 2, 50);
+  history = recordStep(history, b, c, 2, 50);
+  return { history, states: [base, a, b, c] };
+}
+
+describe("recordStep / jumpTo（差分による Undo 履歴）", () => {
+  it("差分だけで前後の状態を再現できる", () => {
+    const { history, states } = threeSteps();
+    const undone = jumpTo(history, states[3], 1, 3);
+    expect(undone.nodes).toEqual(states[1]);
+    expect(undone.history.position).toBe(1);
+    expect(undone.selectedId).toBe(2);
+    const redone = jumpTo(undone.history, undone.nodes, 3, 2);
+    expect(redone.nodes).toEqual(states[3]);
+    // Redo returns to the selection at the time of the undo
+    expect(redone.selectedId).toBe(3);
+  });
+
+  it("Undo 後に新しい変更をすると Redo 側は捨てられる", () => {
+    const { history, states } = threeSteps();
+    const undone = jumpTo(history, states[3], 1, null);
+    const next = updateNodeText(undone.nodes, 1, "top");
+    const recorded = recordStep(undone.history, undone.nodes, next, null, 50);
+    expect(recorded.steps).toHaveLength(2);
+    expect(recorded.position).toBe(2);
+  });
+
+  it("変化のない変更は記録しない", () => {
+    expect(recordStep(emptyHistory(), base, base, null, 50).steps).toHaveLength(0);
+  });
+
+  it("深さを超えた古い手順から削除される", () => {
+    const { history } = threeSteps();
+    const trimmed = trimHistory(setCheckpoint(history, "x"), 2);
+    expect(trimmed.steps.map(describeStep)).toEqual(['Edit "renamed"', "Add 1 node"]);
+    expect(trimmed.position).toBe(2);
+  });
+
+  it("すべて Undo 済みなら Redo 側の新しい手順から削除される", () => {
+    const { history, states } = threeSteps();
+    const undone = jumpTo(history, states[3], 0, null).history;
+    const trimmed = trimHistory(undone, 2);
+    expect(trimmed.position).toBe(0);
+    expect(trimmed.steps.map(describeStep)).toEqual(["Add 1 node", 'Edit "renamed"']);
+  });
+});
+
+describe("setCheckpoint（名前付きチェックポイント）", () => {
+  it("現在の状態に名前を付ける", () => {
+    const { history } = threeSteps();
+    const named = setCheckpoint(history, "before refactor");
+    expect(named.steps[2].label).toBe("before refactor");
+    expect(setCheckpoint(emptyHistory(), "start").baseLabel).toBe("start");
+  });
+});
+
+describe("treeFingerprint", () => {
+  it("インデントの違いは無視し、内容の違いは区別する", () => {
+    const shifted = [{ ...base[0], indent: 3 }];
+    expect(treeFingerprint(shifted)).toBe(treeFingerprint(base));
+    expect(treeFingerprint(updateNodeText(base, 1, "x"))).not.toBe(treeFingerprint(base));
+  });
+});
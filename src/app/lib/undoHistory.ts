@@ -0,0 +1,216 @@
+import { TreeNodeData } from "../components/TreeNode";
+import { applyOps, diffOps, TreeOp } from "./treeOps";
+
+/** One undoable change, kept as the ops in both directions instead of tree copies */
+export type UndoStep = {
+  redo: TreeOp[];
+  undo: TreeOp[];
+  /** Selection before the change, and when it was last undone */
+  selectedBefore: number | null;
+  selectedAfter: number | null;
+  at: string;
+  /** Checkpoint name for the state after this step */
+  label?: string;
+};
+
+/**
+ * Linear undo history. steps[0..position) are applied and can be undone,
+ * steps[position..] were undone and can be redone.
+ */
+export type UndoHistory = {
+  steps: UndoStep[];
+  position: number;
+  /** Checkpoint name for the state before the first step */
+  baseLabel?: string;
+};
+
+export const DEFAULT_UNDO_DEPTH = 50;
+export const MAX_UNDO_DEPTH = 1000;
+
+export function emptyHistory(): UndoHistory {
+  return { steps: [], position: 0 };
+}
+
+/**
+ * Record the change prev → next, dropping the redo tail and steps beyond
+ * depth. A change that changes nothing isn't recorded.
+ */
+export function recordStep(
+  history: UndoHistory,
+  prev: TreeNodeData[],
+  next: TreeNodeData[],
+  selectedBefore: number | null,
+  depth: number
+): UndoHistory {
+  const redo = diffOps(prev, next);
+  if (redo.length === 0) return history;
+  const step: UndoStep = {
+    redo,
+    undo: diffOps(next, prev),
+    selectedBefore,
+    selectedAfter: null,
+    at: new Date().toISOString(),
+  };
+  const steps = [...history.steps.slice(0, history.position), step];
+  return trimHistory({ ...history, steps, position: steps.length }, depth);
+}
+
+/** Drop steps beyond depth: the oldest applied ones, then redo steps from the end */
+export function trimHistory(history: UndoHistory, depth: number): UndoHistory {
+  const excess = history.steps.length - depth;
+  if (excess <= 0) return history;
+  const fromFront = Math.min(excess, history.position);
+  const fromBack = excess - fromFront;
+  return {
+    steps: history.steps.slice(fromFront, history.steps.length - fromBack),
+    position: history.position - fromFront,
+    // The base state is gone once its first step is dropped
+    baseLabel: fromFront > 0 ? undefined : history.baseLabel,
+  };
+}
+
+type Moved = { history: UndoHistory; nodes: TreeNodeData[]; selectedId: number | null };
+
+/**
+ * Move through the history from the current tree to the state after
+ * `position` steps. Throws if the ops no longer fit the tree.
+ */
+export function jumpTo(
+  history: UndoHistory,
+  nodes: TreeNodeData[],
+  position: number,
+  selectedId: number | null
+): Moved {
+  const steps = [...history.steps];
+  let current = history.position;
+  let selected = selectedId;
+  while (current > position) {
+    current--;
+    const step = steps[current];
+    steps[current] = { ...step, selectedAfter: selected };
+    nodes = applyOps(nodes, step.undo);
+    selected = step.selectedBefore;
+  }
+  while (current < position) {
+    const step = steps[current];
+    nodes = applyOps(nodes, step.redo);
+    selected = step.selectedAfter ?? selected;
+    current++;
+  }
+  return { history: { ...history, steps, position: current }, nodes, selectedId: selected };
+}
+
+/** Name the current state as a checkpoint (an empty name removes it) */
+export function setCheckpoint(history: UndoHistory, name: string): UndoHistory {
+  const label = name.trim() || undefined;
+  if (history.position === 0) return { ...history, baseLabel: label };
+  const steps = [...history.steps];
+  steps[history.position - 1] = { ...steps[history.position - 1], label };
+  return { ...history, steps };
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/** Short description of what a step did, e.g. "Edit text, add 2 nodes" */
+export function describeStep(step: UndoStep): string {
+  const count = (type: TreeOp["type"]) => step.redo.filter((op) => op.type === type).length;
+  const parts: string[] = [];
+  const text = step.redo.find((op) => op.type === "text");
+  if (text) {
+    const edits = count("text");
+    const preview = text.text.split("\n")[0].slice(0, 30);
+    parts.push(edits === 1 ? `edit "${preview}"` : `edit ${plural(edits, "text")}`);
+  }
+  if (count("insert") > 0) parts.push(`add ${plural(count("insert"), "node")}`);
+  if (count("delete") > 0) parts.push(`delete ${plural(count("delete"), "node")}`);
+  if (count("move") > 0) parts.push(`move ${plural(count("move"), "node")}`);
+  if (count("closed") > 0) parts.push("fold");
+  if (count("ol") > 0) parts.push("toggle OL");
+  if (count("entity") > 0) parts.push(`set ${plural(count("entity"), "entity name")}`);
+  if (parts.length === 0) return "No change";
+  const description = parts.join(", ");
+  return description[0].toUpperCase() + description.slice(1);
+}
+
+/**
+ * Cheap hash of a tree's content. A stored history only applies to the exact
+ * tree it ends at, so it is discarded when the document changed elsewhere.
+ */
+export function treeFingerprint(nodes: TreeNodeData[]): string {
+  const canonical = (list: TreeNodeData[]): unknown[] =>
+    list.map((n) => [
+      n.id,
+      n.text,
+      n.closed,
+      n.ol === true,
+      canonical(n.children),
+      // Appended only when set, so fingerprints of trees without entities don't change
+      ...(n.entity !== undefined ? [n.entity] : []),
+    ]);
+  const json = JSON.stringify(canonical(nodes));
+  // FNV-1a, 32 bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${json.length}`;
+}
+
+// Persistence in IndexedDB, one record per document: { history, fingerprint }
+
+const DB_NAME = "locus";
+const STORE = "undo";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Run one request against the undo store and close the database afterwards */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** The stored history of doc if it ends at exactly this tree, else null */
+export async function loadUndoHistory(
+  doc: string,
+  nodes: TreeNodeData[]
+): Promise<UndoHistory | null> {
+  const record = await withStore<{ history: UndoHistory; fingerprint: string } | undefined>(
+    "readonly",
+    (store) => store.get(doc)
+  );
+  if (!record || record.fingerprint !== treeFingerprint(nodes)) return null;
+  return record.history;
+}
+
+// Saves run one after another, so an older history never lands last
+let saving: Promise<unknown> = Promise.resolve();
+
+/** Store doc's history together with the fingerprint of the tree it ends at */
+export function saveUndoHistory(doc: string, history: UndoHistory, nodes: TreeNodeData[]) {
+  const record = { history, fingerprint: treeFingerprint(nodes) };
+  saving = saving
+    .catch(() => {})
+    .then(() => withStore<IDBValidKey>("readwrite", (store) => store.put(record, doc)));
+  return saving;
+}
@@ -2,6 +2,9 @@
 
 import { useEffect, useLayoutEffect, useState, useCallback, useRef, useMemo } from "react";
 import TreeNode, { TreeNodeData } from "./components/TreeNode";
+import DiffOutline from "./components/DiffOutline";
+import TreeBrowser from "./components/TreeBrowser";
+import NodeHistory from "./components/NodeHistory";
 import {
   flattenVisible,
   findNode,
@@ -23,20 +26,73 @@ import {
   filterTree,
   copyNode,
   pasteNode,
+  duplicateNodes,
   moveNode,
   countAllNodes,
+  isMassDeletion,
   treeToText,
   textToTree,
   treeToMarkdown,
   markdownToTree,
   toggleOl,
   getSiblingRange,
+  expandToNode,
+  setNodeEntity,
+  expandSubtree,
+  ExpansionFormat,
+  ExpansionProblem,
+  MAX_EXPANSION_DEPTH,
 } from "./lib/treeUtils";
+import { brokenRefs, entityIndex, isValidEntityName } from "./lib/entities";
+import { diffOps, mergeTrees, TreeOp } from "./lib/treeOps";
+import { changedOnly, TreeDiff } from "./lib/treeDiff";
+import type { GenerationResult } from "./lib/generate";
+import type { NodeVersion } from "./lib/nodeHistory";
+import {
+  DEFAULT_UNDO_DEPTH,
+  MAX_UNDO_DEPTH,
+  UndoHistory,
+  describeStep,
+  emptyHistory,
+  jumpTo,
+  loadUndoHistory,
+  recordStep,
+  saveUndoHistory,
+  setCheckpoint,
+  trimHistory,
+} from "./lib/undoHistory";
 
 type SaveStatus = "idle" | "saving" | "saved" | "error";
-type ModalType = "import" | "export" | "markdown" | "import-md" | "shortcuts" | null;
+type ModalType =
+  | "import"
+  | "export"
+  | "markdown"
+  | "import-md"
+  | "expand"
+  | "generate"
+  | "shortcuts"
+  | null;
 type ThemeMode = "dark" | "light";
-type UndoEntry = { nodes: TreeNodeData[]; selectedId: number | null };
+type Conflict = { nodes: TreeNodeData[]; revision: string };
+type DocInfo = { name: string; mtime: string; size: number };
+type CommitInfo = { hash: string; date: string; message: string };
+type Anomaly = { line: number; severity: "error" | "warning"; message: string };
+type BackupInfo = {
+  name: string;
+  kind: "rotating" | "weekly" | "pinned";
+  mtime: string;
+  size: number;
+  nodes: number;
+};
+
+/** The original memo.cgi document; it can't be renamed or deleted */
+const DEFAULT_DOC = "memo";
+
+/** x-locus-author header for a non-empty name, URI-encoded to stay within header characters */
+function authorHeader(author: string): Record<string, string> {
+  const name = author.trim();
+  return name ? { "x-locus-author": encodeURIComponent(name) } : {};
+}
 
 export default function Home() {
   const [nodes, setNodes] = useState<TreeNodeData[]>([]);
@@ -57,10 +113,23 @@ export default function Home() {
     setSearchIndexRaw(idx);
   }, []);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
-  const undoStack = useRef<UndoEntry[]>([]);
-  const redoStack = useRef<UndoEntry[]>([]);
+  // Undo history as op diffs, persisted per document in IndexedDB
+  const undoHistoryRef = useRef<UndoHistory>(emptyHistory());
+  const [undoHistory, setUndoHistoryRaw] = useState<UndoHistory>(emptyHistory());
+  const [showUndoHistory, setShowUndoHistory] = useState(false);
+  const [undoDepth, setUndoDepthRaw] = useState(DEFAULT_UNDO_DEPTH);
+  const undoDepthRef = useRef(DEFAULT_UNDO_DEPTH);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Lowest id a new node may get: the server's high-water mark, raised by
+  // every tree this tab has held, so the id of a deleted node isn't reused
+  const idFloorRef = useRef(1);
+  const raiseIdFloor = useCallback((tree: TreeNodeData[], mark = 1) => {
+    idFloorRef.current = nextId(tree, Math.max(idFloorRef.current, mark));
+  }, []);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  // Archive picked for restoring, until replace, merge or cancel is chosen
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
   const clipboardRef = useRef<TreeNodeData | null>(null);
   const [dragId, setDragId] = useState<number | null>(null);
   const skipScrollRef = useRef(false);
@@ -73,54 +142,330 @@ export default function Home() {
   }, []);
   const selectionAnchorRef = useRef<number | null>(null);
   const [modal, setModal] = useState<ModalType>(null);
+  const [expandFormat, setExpandFormat] = useState<ExpansionFormat>("html");
+  const [expandDepth, setExpandDepth] = useState(MAX_EXPANSION_DEPTH);
+  // File generation: the dry run being reviewed, then the result of writing it
+  const [generation, setGeneration] = useState<GenerationResult | null>(null);
+  const [generationScope, setGenerationScope] = useState<number | null>(null);
   const [modalText, setModalText] = useState("");
-  const [backups, setBackups] = useState<{ name: string; mtime: string }[]>([]);
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
   const [showBackups, setShowBackups] = useState(false);
+  // Diff of what restoring the named backup would change
+  // diff is null for a backup saved before node ids were stored, which can't be diffed
+  const [backupDiff, setBackupDiff] = useState<{ name: string; diff: TreeDiff | null } | null>(
+    null
+  );
+  // Backup opened read-only to graft subtrees from, and the node picked in it
+  const [backupView, setBackupView] = useState<{ name: string; nodes: TreeNodeData[] } | null>(
+    null
+  );
+  const [backupPickId, setBackupPickId] = useState<number | null>(null);
+  // Time span the save journal covers, and the point in time picked in the Restore panel
+  const [journal, setJournal] = useState<{ from: string; to: string } | null>(null);
+  const [restoreTime, setRestoreTime] = useState("");
+  // Git commits of the document; null when git versioning is off
+  const [commits, setCommits] = useState<CommitInfo[] | null>(null);
+  // Problems the server found in the stored file, shown until repaired or dismissed
+  const [anomalies, setAnomalies] = useState<Anomaly[]>([]);
+  const [showAnomalies, setShowAnomalies] = useState(false);
+  // Earlier texts of the node whose history popover is open; versions is null while loading
+  const [nodeHistory, setNodeHistory] = useState<{ id: number; versions: NodeVersion[] | null } | null>(
+    null
+  );
+  // Name sent with saves so the journal records who changed what
+  const [author, setAuthorRaw] = useState("");
+  const authorRef = useRef("");
+  const setAuthor = useCallback((name: string) => {
+    authorRef.current = name;
+    setAuthorRaw(name);
+    localStorage.setItem("author", name);
+  }, []);
   const [editOnAdd, setEditOnAdd] = useState(true);
   const prevCountRef = useRef<number | null>(null);
   const [theme, setTheme] = useState<ThemeMode>("light");
+  const [doc, setDoc] = useState<string | null>(null);
+  const [docs, setDocs] = useState<DocInfo[]>([]);
+  const treeUrl = `/api/docs/${doc ?? DEFAULT_DOC}/tree`;
+  const treeUrlRef = useRef(treeUrl);
+  treeUrlRef.current = treeUrl;
+  const docRef = useRef(doc ?? DEFAULT_DOC);
+  docRef.current = doc ?? DEFAULT_DOC;
+
+  // Replace the undo history and store it along with the tree it ends at
+  const setUndoHistory = useCallback((history: UndoHistory, nodes: TreeNodeData[]) => {
+    undoHistoryRef.current = history;
+    setUndoHistoryRaw(history);
+    saveUndoHistory(docRef.current, history, nodes).catch(() => {});
+  }, []);
 
-  const saveTree = useCallback((data: TreeNodeData[]) => {
-    setSaveStatus("saving");
-    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
-    fetch("/api/tree", {
-      method: "PUT",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ nodes: data }),
-    })
-      .then((res) => {
-        setSaveStatus(res.ok ? "saved" : "error");
-        saveTimerRef.current = setTimeout(() => setSaveStatus("idle"), 2000);
-      })
-      .catch(() => {
-        setSaveStatus("error");
-        saveTimerRef.current = setTimeout(() => setSaveStatus("idle"), 3000);
-      });
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Revision the server last reported, and the tree it holds at that revision
+  const revisionRef = useRef<string | null>(null);
+  // Document revisionRef belongs to, null until its first load finishes
+  const loadedDocRef = useRef<string | null>(null);
+  const syncedNodesRef = useRef<TreeNodeData[]>([]);
+  const [conflict, setConflictRaw] = useState<Conflict | null>(null);
+  const conflictRef = useRef<Conflict | null>(null);
+  const setConflict = useCallback((c: Conflict | null) => {
+    conflictRef.current = c;
+    setConflictRaw(c);
   }, []);
 
+  const sendTree = useCallback(
+    (
+      url: string,
+      method: "PATCH" | "PUT",
+      payload: ({ ops: TreeOp[] } | { nodes: TreeNodeData[] }) & { confirmMassDeletion?: boolean }
+    ) =>
+      fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(revisionRef.current ? { "If-Match": `"${revisionRef.current}"` } : {}),
+          ...authorHeader(authorRef.current),
+        },
+        body: JSON.stringify(payload),
+      }),
+    []
+  );
+
+  // Saves are queued so each one carries the revision the previous one produced.
+  // With ops, only the changes are sent; without, the whole tree is.
+  // confirmMassDeletion says the user already agreed to a large drop in nodes.
+  const enqueueSave = useCallback(
+    (data: TreeNodeData[], ops: TreeOp[] | null, confirmMassDeletion = false) => {
+      const url = treeUrlRef.current;
+      setSaveStatus("saving");
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveQueueRef.current = saveQueueRef.current
+        .then(async () => {
+          // Paused until the user resolves the conflict
+          if (conflictRef.current) return;
+          let full = false;
+          const send = (confirm: boolean) =>
+            ops && !full
+              ? sendTree(url, "PATCH", { ops, confirmMassDeletion: confirm })
+              : sendTree(url, "PUT", { nodes: data, confirmMassDeletion: confirm });
+          let res = await send(confirmMassDeletion);
+          if (ops && res.status === 422) {
+            // Server copy doesn't match ours — fall back to a full save
+            full = true;
+            res = await send(confirmMassDeletion);
+          }
+          let body = await res.json();
+          if (res.status === 428) {
+            // Server refused a large drop this save wasn't confirmed for (undo, merge, ...)
+            if (!window.confirm(`${body.error}. Save anyway?`)) {
+              setSaveStatus("error");
+              saveTimerRef.current = setTimeout(() => setSaveStatus("idle"), 3000);
+              return;
+            }
+            res = await send(true);
+            body = await res.json();
+          }
+          if (res.status === 409) {
+            raiseIdFloor(body.nodes, body.nextId);
+            setConflict({ nodes: body.nodes, revision: body.revision });
+          } else if (res.ok) {
+            revisionRef.current = body.revision;
+            syncedNodesRef.current = data;
+          }
+          setSaveStatus(res.ok ? "saved" : "error");
+          saveTimerRef.current = setTimeout(() => setSaveStatus("idle"), 2000);
+        })
+        .catch(() => {
+          setSaveStatus("error");
+          saveTimerRef.current = setTimeout(() => setSaveStatus("idle"), 3000);
+        });
+    },
+    [sendTree, setConflict, raiseIdFloor]
+  );
+
+  const saveTree = useCallback(
+    (prev: TreeNodeData[], data: TreeNodeData[], confirmMassDeletion = false) => {
+      const ops = diffOps(prev, data);
+      if (ops.length > 0) enqueueSave(data, ops, confirmMassDeletion);
+    },
+    [enqueueSave]
+  );
+
   const nodesRef = useRef<TreeNodeData[]>([]);
 
+  // Document: restore the last opened one on mount
   useEffect(() => {
-    fetch("/api/tree")
+    setDoc(localStorage.getItem("doc") ?? DEFAULT_DOC);
+    fetch("/api/docs")
       .then((res) => res.json())
       .then((data) => {
+        if (data.docs) setDocs(data.docs);
+      })
+      .catch(() => {});
+  }, []);
+
+  // Load the tree whenever the document changes
+  useEffect(() => {
+    if (doc === null) return;
+    fetch(`/api/docs/${doc}/tree`)
+      .then((res) => {
+        if (res.status === 404 && doc !== DEFAULT_DOC) {
+          // Last opened document is gone
+          localStorage.removeItem("doc");
+          setDoc(DEFAULT_DOC);
+          return null;
+        }
+        return res.json();
+      })
+      .then((data) => {
+        if (!data) return;
         if (data.error) {
           setError(data.error);
         } else {
           setNodes(data.nodes);
           nodesRef.current = data.nodes;
+          syncedNodesRef.current = data.nodes;
+          revisionRef.current = data.revision;
+          loadedDocRef.current = doc;
+          idFloorRef.current = nextId(data.nodes, data.nextId);
           prevCountRef.current = countAllNodes(data.nodes);
+          undoHistoryRef.current = emptyHistory();
+          setUndoHistoryRaw(undoHistoryRef.current);
+          // Pick up the stored history if it ends at the tree just loaded
+          loadUndoHistory(doc, data.nodes)
+            .then((history) => {
+              if (!history || nodesRef.current !== data.nodes) return;
+              undoHistoryRef.current = history;
+              setUndoHistoryRaw(history);
+            })
+            .catch(() => {});
+          setSelectedId(null);
+          setSelectedIdsWrapped(new Set());
+          setEditingId(null);
+          setShowBackups(false);
+          setNodeHistory(null);
+          setAnomalies([]);
+          fetch(`/api/docs/${doc}/tree/integrity`)
+            .then((res) => res.json())
+            .then((result) => setAnomalies(result.anomalies ?? []))
+            .catch(() => {});
         }
       })
       .catch((err) => setError(err.message));
+  }, [doc, setSelectedId, setSelectedIdsWrapped]);
+
+  const switchDoc = useCallback(async (name: string) => {
+    // Let saves for the current document finish first
+    await saveQueueRef.current;
+    localStorage.setItem("doc", name);
+    setDoc(name);
   }, []);
 
-  // Theme: load from localStorage on mount
+  const handleNewDoc = useCallback(() => {
+    const name = window.prompt("New document name (letters, digits and -):");
+    if (!name) return;
+    fetch("/api/docs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          window.alert(data.error);
+          return;
+        }
+        setDocs(data.docs);
+        switchDoc(name);
+      })
+      .catch(() => {});
+  }, [switchDoc]);
+
+  const handleRenameDoc = useCallback(async () => {
+    if (doc === null || doc === DEFAULT_DOC) return;
+    const name = window.prompt("Rename document to:", doc);
+    if (!name || name === doc) return;
+    await saveQueueRef.current;
+    fetch(`/api/docs/${doc}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          window.alert(data.error);
+          return;
+        }
+        setDocs(data.docs);
+        switchDoc(name);
+      })
+      .catch(() => {});
+  }, [doc, switchDoc]);
+
+  const handleDeleteDoc = useCallback(async () => {
+    if (doc === null || doc === DEFAULT_DOC) return;
+    if (!window.confirm(`Delete document "${doc}"? It will be moved to the trash folder.`)) return;
+    await saveQueueRef.current;
+    fetch(`/api/docs/${doc}`, { method: "DELETE" })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          window.alert(data.error);
+          return;
+        }
+        setDocs(data.docs);
+        switchDoc(DEFAULT_DOC);
+      })
+      .catch(() => {});
+  }, [doc, switchDoc]);
+
+  // Restore a whole-installation archive in the chosen mode: preview with a dry run, then reload
+  const handleImportArchive = useCallback(async (file: File, mode: "replace" | "merge") => {
+    setArchiveFile(null);
+    const text = await file.text();
+    const post = (dryRun: boolean) =>
+      fetch(`/api/archive?mode=${mode}${dryRun ? "&dryRun=1" : ""}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: text,
+      }).then((res) => res.json());
+    await saveQueueRef.current;
+    try {
+      const preview = await post(true);
+      if (preview.error) {
+        window.alert(`Invalid archive: ${preview.error}`);
+        return;
+      }
+      if (preview.written.length === 0) {
+        window.alert("Nothing to import: every file in the archive already exists.");
+        return;
+      }
+      const skipped = preview.skipped.length > 0 ? `, skip ${preview.skipped.length}` : "";
+      if (!window.confirm(`Write ${preview.written.length} file(s)${skipped}?`)) return;
+      const result = await post(false);
+      if (result.error) {
+        window.alert(result.error);
+        return;
+      }
+      window.location.reload();
+    } catch {
+      window.alert("Import failed");
+    }
+  }, []);
+
+  // Theme, author name and undo depth: load from localStorage on mount
   useEffect(() => {
     const saved = localStorage.getItem("theme");
     if (saved === "dark" || saved === "light") {
       setTheme(saved);
     }
+    const depth = Number(localStorage.getItem("undoDepth"));
+    if (Number.isInteger(depth) && depth > 0) {
+      undoDepthRef.current = Math.min(depth, MAX_UNDO_DEPTH);
+      setUndoDepthRaw(undoDepthRef.current);
+    }
+    const name = localStorage.getItem("author") ?? "";
+    authorRef.current = name;
+    setAuthorRaw(name);
   }, []);
 
   // Theme: apply dark class to <html>
@@ -141,61 +486,182 @@ export default function Home() {
     });
   }, []);
 
-  const UNDO_LIMIT = 50;
-
   const update = useCallback(
     (newNodes: TreeNodeData[]) => {
+      // The server refuses an empty tree, so keep at least one node
+      if (newNodes.length === 0) return;
+
       // Check for significant node count drop before saving
       const newCount = countAllNodes(newNodes);
       const prevCount = prevCountRef.current;
-      if (prevCount !== null && prevCount > 0) {
-        const decrease = (prevCount - newCount) / prevCount;
-        if (decrease >= 0.1) {
-          const pct = Math.round(decrease * 100);
-          const ok = window.confirm(
-            `Node count dropped from ${prevCount.toLocaleString()} to ${newCount.toLocaleString()} (${pct}% decrease). Save anyway?`
-          );
-          if (!ok) {
-            // Don't save — undo is not needed since we haven't pushed yet
-            return;
-          }
+      const massDeletion = prevCount !== null && isMassDeletion(prevCount, newCount);
+      if (massDeletion) {
+        const pct = Math.round(((prevCount - newCount) / prevCount) * 100);
+        const ok = window.confirm(
+          `Node count dropped from ${prevCount.toLocaleString()} to ${newCount.toLocaleString()} (${pct}% decrease). Save anyway?`
+        );
+        if (!ok) {
+          // Don't save — undo is not needed since we haven't pushed yet
+          return;
         }
       }
 
-      undoStack.current.push({ nodes: nodesRef.current, selectedId: selectedIdRef.current });
-      if (undoStack.current.length > UNDO_LIMIT) {
-        undoStack.current.splice(0, undoStack.current.length - UNDO_LIMIT);
-      }
-      redoStack.current = [];
+      const prevNodes = nodesRef.current;
+      setUndoHistory(
+        recordStep(undoHistoryRef.current, prevNodes, newNodes, selectedIdRef.current, undoDepthRef.current),
+        newNodes
+      );
+      raiseIdFloor(newNodes);
       nodesRef.current = newNodes;
       setNodes(newNodes);
-      saveTree(newNodes);
+      saveTree(prevNodes, newNodes, massDeletion);
       prevCountRef.current = newCount;
     },
-    [saveTree]
+    [saveTree, setUndoHistory, raiseIdFloor]
+  );
+
+  // Undo or redo until `position` steps of the history are applied
+  const jumpInHistory = useCallback(
+    (position: number) => {
+      const history = undoHistoryRef.current;
+      if (position < 0 || position > history.steps.length || position === history.position) return;
+      const current = nodesRef.current;
+      let moved: ReturnType<typeof jumpTo>;
+      try {
+        moved = jumpTo(history, current, position, selectedIdRef.current);
+      } catch {
+        // The history no longer fits the tree: refuse the jump but keep the history
+        window.alert("Can't jump there: the recorded changes no longer apply to this tree.");
+        return;
+      }
+      setUndoHistory(moved.history, moved.nodes);
+      nodesRef.current = moved.nodes;
+      setNodes(moved.nodes);
+      setSelectedId(moved.selectedId);
+      saveTree(current, moved.nodes);
+      prevCountRef.current = countAllNodes(moved.nodes);
+    },
+    [saveTree, setSelectedId, setUndoHistory]
   );
 
   const undo = useCallback(() => {
-    const prev = undoStack.current.pop();
-    if (!prev) return;
-    redoStack.current.push({ nodes: nodesRef.current, selectedId: selectedIdRef.current });
-    nodesRef.current = prev.nodes;
-    setNodes(prev.nodes);
-    setSelectedId(prev.selectedId);
-    saveTree(prev.nodes);
-    prevCountRef.current = countAllNodes(prev.nodes);
-  }, [saveTree, setSelectedId]);
+    jumpInHistory(undoHistoryRef.current.position - 1);
+  }, [jumpInHistory]);
 
   const redo = useCallback(() => {
-    const next = redoStack.current.pop();
-    if (!next) return;
-    undoStack.current.push({ nodes: nodesRef.current, selectedId: selectedIdRef.current });
-    nodesRef.current = next.nodes;
-    setNodes(next.nodes);
-    setSelectedId(next.selectedId);
-    saveTree(next.nodes);
-    prevCountRef.current = countAllNodes(next.nodes);
-  }, [saveTree, setSelectedId]);
+    jumpInHistory(undoHistoryRef.current.position + 1);
+  }, [jumpInHistory]);
+
+  // Name the current state so it can be found in the undo history
+  const handleCheckpoint = useCallback(() => {
+    const name = window.prompt("Checkpoint name:");
+    if (!name) return;
+    setUndoHistory(setCheckpoint(undoHistoryRef.current, name), nodesRef.current);
+  }, [setUndoHistory]);
+
+  const setUndoDepth = useCallback(
+    (depth: number) => {
+      if (!Number.isInteger(depth) || depth < 1) return;
+      const clamped = Math.min(depth, MAX_UNDO_DEPTH);
+      undoDepthRef.current = clamped;
+      setUndoDepthRaw(clamped);
+      localStorage.setItem("undoDepth", String(clamped));
+      setUndoHistory(trimHistory(undoHistoryRef.current, clamped), nodesRef.current);
+    },
+    [setUndoHistory]
+  );
+
+  // Replace the tree without saving it (undoable). Used when the server
+  // already holds the new tree, or the caller saves it explicitly; mark is
+  // the server's nextId when the tree came from it.
+  const replaceNodes = useCallback(
+    (newNodes: TreeNodeData[], mark?: number) => {
+      setUndoHistory(
+        recordStep(
+          undoHistoryRef.current,
+          nodesRef.current,
+          newNodes,
+          selectedIdRef.current,
+          undoDepthRef.current
+        ),
+        newNodes
+      );
+      raiseIdFloor(newNodes, mark);
+      nodesRef.current = newNodes;
+      setNodes(newNodes);
+      prevCountRef.current = countAllNodes(newNodes);
+    },
+    [setUndoHistory, raiseIdFloor]
+  );
+
+  // Conflict: discard local edits and take the server's version
+  const resolveConflictReload = useCallback(() => {
+    const c = conflictRef.current;
+    if (!c) return;
+    revisionRef.current = c.revision;
+    syncedNodesRef.current = c.nodes;
+    setConflict(null);
+    replaceNodes(c.nodes);
+  }, [replaceNodes, setConflict]);
+
+  // Conflict: save the local version over the server's
+  const resolveConflictOverwrite = useCallback(() => {
+    const c = conflictRef.current;
+    if (!c) return;
+    revisionRef.current = c.revision;
+    setConflict(null);
+    enqueueSave(nodesRef.current, null);
+  }, [enqueueSave, setConflict]);
+
+  // Conflict: replay local edits on top of the server's version and save that
+  const resolveConflictMerge = useCallback(() => {
+    const c = conflictRef.current;
+    if (!c) return;
+    const merged = mergeTrees(syncedNodesRef.current, nodesRef.current, c.nodes);
+    revisionRef.current = c.revision;
+    setConflict(null);
+    replaceNodes(merged);
+    enqueueSave(merged, null);
+  }, [enqueueSave, replaceNodes, setConflict]);
+
+  // Live reload: follow changes to the stored file made by other tabs or outside the app
+  useEffect(() => {
+    if (doc === null) return;
+    const url = treeUrl;
+    const source = new EventSource(`${url}/events`);
+    let pulling = Promise.resolve();
+    source.addEventListener("change", (event) => {
+      const { revision } = JSON.parse(event.data) as { revision: string };
+      pulling = pulling
+        .then(async () => {
+          // Our own saves are known once they finish
+          await saveQueueRef.current;
+          // Before the first load there's nothing to reload
+          if (loadedDocRef.current !== doc) return;
+          if (conflictRef.current || revision === revisionRef.current) return;
+          const queue = saveQueueRef.current;
+          const data = await fetch(url).then((res) => res.json());
+          // A save queued meanwhile goes out on the old revision and gets the conflict dialog
+          if (data.error || loadedDocRef.current !== doc || saveQueueRef.current !== queue) return;
+          if (data.revision === revisionRef.current) return;
+          const local = nodesRef.current;
+          const unsaved = local !== syncedNodesRef.current;
+          const base = syncedNodesRef.current;
+          revisionRef.current = data.revision;
+          syncedNodesRef.current = data.nodes;
+          if (!unsaved) {
+            replaceNodes(data.nodes, data.nextId);
+            return;
+          }
+          // Edits that didn't reach the server (a failed save) are replayed on top
+          const merged = mergeTrees(base, local, data.nodes);
+          replaceNodes(merged, data.nextId);
+          enqueueSave(merged, null);
+        })
+        .catch(() => {});
+    });
+    return () => source.close();
+  }, [doc, treeUrl, enqueueSave, replaceNodes]);
 
   const startEdit = useCallback(
     (id: number) => {
@@ -232,6 +698,8 @@ export default function Home() {
   const displayNodes = searchQuery ? filterTree(nodes, searchQuery) : nodes;
 
   const nodeCount = useMemo(() => countAllNodes(nodes), [nodes]);
+  const entities = useMemo(() => entityIndex(nodes), [nodes]);
+  const brokenRefIds = useMemo(() => brokenRefs(nodes), [nodes]);
 
   // Collect search-matching node IDs in display order
   const searchMatchIds = useMemo(() => {
@@ -287,14 +755,107 @@ export default function Home() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedId]);
 
+  // Toggle the history popover of a node, loading its earlier texts
+  const handleShowNodeHistory = useCallback(
+    (id: number) => {
+      if (nodeHistory?.id === id) {
+        setNodeHistory(null);
+        return;
+      }
+      setNodeHistory({ id, versions: null });
+      fetch(`${treeUrl}/history?${new URLSearchParams({ node: String(id) })}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.versions) {
+            setNodeHistory((prev) => (prev?.id === id ? { id, versions: data.versions } : prev));
+          }
+        })
+        .catch(() => {});
+    },
+    [treeUrl, nodeHistory]
+  );
+
+  // Put back one earlier text of the node, as an ordinary undoable edit
+  const handleRestoreNodeText = useCallback(
+    (text: string) => {
+      if (!nodeHistory) return;
+      update(updateNodeText(nodes, nodeHistory.id, text));
+      setNodeHistory(null);
+    },
+    [nodeHistory, nodes, update]
+  );
+
+  // Select a node wherever it is: open its ancestors and leave a search that hides it
+  const revealNode = useCallback(
+    (id: number) => {
+      const expanded = expandToNode(nodes, id);
+      if (expanded !== nodes) update(expanded);
+      if (searchQuery && !flattenVisible(filterTree(expanded, searchQuery)).some((n) => n.id === id)) {
+        setSearchQuery("");
+      }
+      setSelectedIdsWrapped(new Set());
+      selectionAnchorRef.current = null;
+      setSelectedId(id);
+    },
+    [nodes, update, searchQuery, setSelectedId, setSelectedIdsWrapped]
+  );
+
+  // Jump to the node a !{ref:Name} or !{child:Name:n} points at
+  const handleFollowRef = useCallback((id: number) => revealNode(id), [revealNode]);
+
+  // Select the next node (after the selected one) that refers to a missing entity
+  const handleNextBrokenRef = useCallback(() => {
+    if (brokenRefIds.length === 0) return;
+    // Document order, collapsed nodes included
+    const order: number[] = [];
+    const walk = (list: TreeNodeData[]) =>
+      list.forEach((n) => {
+        order.push(n.id);
+        walk(n.children);
+      });
+    walk(nodes);
+    const current = selectedId === null ? -1 : order.indexOf(selectedId);
+    const next = brokenRefIds.find((id) => order.indexOf(id) > current) ?? brokenRefIds[0];
+    revealNode(next);
+  }, [brokenRefIds, nodes, selectedId, revealNode]);
+
+  // Name a node as an entity (or clear its name) so other nodes can refer to it
+  const handleSetEntity = useCallback(
+    (id: number) => {
+      const node = findNode(nodes, id);
+      if (!node) return;
+      const input = window.prompt(
+        "Entity name, referred to as !{ref:Name} (empty to remove):",
+        node.entity ?? ""
+      );
+      if (input === null) return;
+      const name = input.trim();
+      if (name === "") {
+        if (node.entity !== undefined) update(setNodeEntity(nodes, id, null));
+        return;
+      }
+      if (!isValidEntityName(name)) {
+        window.alert('Entity names can\'t contain spaces, braces or ":".');
+        return;
+      }
+      const owner = entities.ids.get(name);
+      if (owner !== undefined && owner !== id) {
+        window.alert(`"${name}" is already the name of another node.`);
+        return;
+      }
+      if (name !== node.entity) update(setNodeEntity(nodes, id, name));
+    },
+    [entities, nodes, update]
+  );
+
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
       // Read latest values from refs to avoid stale closure
       const selectedId = selectedIdRef.current;
       const selectedIds = selectedIdsRef.current;
 
-      // Don't handle keys when modal is open
-      if (modal) return;
+      // Don't handle keys when modal or conflict dialog is open
+      if (modal || conflictRef.current) return;
 
       // ? key: show shortcuts help
       if (e.key === "?" && !e.ctrlKey && !e.altKey && editingId === null) {
@@ -348,10 +909,25 @@ export default function Home() {
         return;
       }
 
+      // Ctrl+D: duplicate node(s) with descendants; Ctrl+Shift+D: without
+      if (key === "d" && e.ctrlKey && selectedId !== null) {
+        e.preventDefault();
+        const ids = selectedIds.size > 0 ? [...selectedIds] : [selectedId];
+        const { tree, copies } = duplicateNodes(nodes, ids, nextId(nodes, idFloorRef.current), !e.shiftKey);
+        update(tree);
+        setSelectedId(copies.get(selectedId) ?? selectedId);
+        if (selectedIds.size > 0) {
+          setSelectedIdsWrapped(new Set(copies.values()));
+          const anchor = selectionAnchorRef.current;
+          if (anchor !== null) selectionAnchorRef.current = copies.get(anchor) ?? null;
+        }
+        return;
+      }
+
       // Ctrl+V: paste node
       if (key === "v" && e.ctrlKey && selectedId !== null && clipboardRef.current) {
         e.preventDefault();
-        const newId = nextId(nodes);
+        const newId = nextId(nodes, idFloorRef.current);
         const newNodes = pasteNode(nodes, selectedId, clipboardRef.current, newId);
         update(newNodes);
         setSelectedId(newId);
@@ -389,6 +965,19 @@ export default function Home() {
       const visible = flattenVisible(displayNodes);
       if (visible.length === 0) return;
 
+      // Escape: close the history popover first
+      if (e.key === "Escape" && nodeHistory !== null && nodeHistory.id === selectedId) {
+        setNodeHistory(null);
+        return;
+      }
+
+      // H: text history of the selected node
+      if (key === "h" && !e.ctrlKey && !e.altKey && !e.metaKey && selectedId !== null) {
+        e.preventDefault();
+        handleShowNodeHistory(selectedId);
+        return;
+      }
+
       // Escape: clear search first, then deselect
       if (e.key === "Escape") {
         setSelectedIdsWrapped(new Set());
@@ -497,7 +1086,7 @@ export default function Home() {
         e.preventDefault();
         setSelectedIdsWrapped(new Set());
         selectionAnchorRef.current = null;
-        const newId = nextId(nodes);
+        const newId = nextId(nodes, idFloorRef.current);
         const result = addSiblingBefore(nodes, selectedId, newId);
         if (result) {
           update(result.tree);
@@ -513,7 +1102,7 @@ export default function Home() {
         e.preventDefault();
         setSelectedIdsWrapped(new Set());
         selectionAnchorRef.current = null;
-        const newId = nextId(nodes);
+        const newId = nextId(nodes, idFloorRef.current);
         const result = addSiblingNode(nodes, selectedId, newId);
         if (result) {
           update(result.tree);
@@ -529,7 +1118,7 @@ export default function Home() {
         e.preventDefault();
         setSelectedIdsWrapped(new Set());
         selectionAnchorRef.current = null;
-        const newId = nextId(nodes);
+        const newId = nextId(nodes, idFloorRef.current);
         const { tree } = addChildNodeFirst(nodes, selectedId, newId);
         update(tree);
         addOriginRef.current = selectedId;
@@ -543,7 +1132,7 @@ export default function Home() {
         e.preventDefault();
         setSelectedIdsWrapped(new Set());
         selectionAnchorRef.current = null;
-        const newId = nextId(nodes);
+        const newId = nextId(nodes, idFloorRef.current);
         const { tree } = addChildNode(nodes, selectedId, newId);
         update(tree);
         addOriginRef.current = selectedId;
@@ -579,6 +1168,13 @@ export default function Home() {
         return;
       }
 
+      // E: name the node as an entity
+      if (key === "e" && !e.ctrlKey && !e.altKey && !e.metaKey && selectedId !== null) {
+        e.preventDefault();
+        handleSetEntity(selectedId);
+        return;
+      }
+
       // Ctrl+Shift+L: toggle OL
       if (key === "l" && e.ctrlKey && e.shiftKey && selectedId !== null) {
         e.preventDefault();
@@ -736,7 +1332,7 @@ export default function Home() {
         }
       }
     },
-    [nodes, editingId, editOnAdd, startEdit, update, undo, redo, searchQuery, displayNodes, modal, setSelectedId, navigateSearch, searchMatchIds]
+    [nodes, editingId, editOnAdd, startEdit, update, undo, redo, searchQuery, displayNodes, modal, setSelectedId, navigateSearch, searchMatchIds, nodeHistory, handleShowNodeHistory, handleSetEntity]
   );
 
   useEffect(() => {
@@ -808,6 +1404,48 @@ export default function Home() {
     setModal("markdown");
   }, [nodes, selectedId]);
 
+  // Reference expansion of the selected subtree, recomputed while the modal is open
+  const expansion = useMemo(
+    () =>
+      modal === "expand" && selectedId !== null
+        ? expandSubtree(nodes, selectedId, expandFormat, expandDepth)
+        : null,
+    [modal, nodes, selectedId, expandFormat, expandDepth]
+  );
+
+  // Show the HTML expansion rendered, in a new window
+  const handlePreviewExpansion = useCallback(() => {
+    if (!expansion) return;
+    const html = `<!DOCTYPE html>\n<meta charset="utf-8">\n${expansion.output}`;
+    window.open(URL.createObjectURL(new Blob([html], { type: "text/html" })), "_blank");
+  }, [expansion]);
+
+  // Write !{file:path} nodes under the selection (or the whole document) to the output directory
+  const runGeneration = useCallback(
+    async (scope: number | null, dryRun: boolean) => {
+      // The server renders what is saved
+      await saveQueueRef.current;
+      const query = new URLSearchParams();
+      if (scope !== null) query.set("node", String(scope));
+      if (dryRun) query.set("dryRun", "1");
+      try {
+        const res = await fetch(`${treeUrl}/generate?${query}`, { method: "POST" });
+        const data = await res.json();
+        if (data.error) {
+          window.alert(data.error);
+          return;
+        }
+        setGenerationScope(scope);
+        setGeneration(data);
+        setModal("generate");
+      } catch {
+        window.alert("File generation failed");
+      }
+    },
+    [treeUrl]
+  );
+  const pendingWrites = generation?.files.filter((file) => file.status !== "unchanged").length ?? 0;
+
   // Import handler
   const handleImport = useCallback(() => {
     setModalText("");
@@ -819,7 +1457,7 @@ export default function Home() {
       setModal(null);
       return;
     }
-    const startIdVal = nextId(nodes);
+    const startIdVal = nextId(nodes, idFloorRef.current);
     const { nodes: imported } = textToTree(modalText, startIdVal);
     if (imported.length > 0) {
       const newNodes = [...nodes, ...imported];
@@ -845,7 +1483,7 @@ export default function Home() {
       setModal(null);
       return;
     }
-    const startIdVal = nextId(nodes);
+    const startIdVal = nextId(nodes, idFloorRef.current);
     const { nodes: imported } = markdownToTree(modalText, startIdVal, parent.indent + 1);
     if (imported.length > 0) {
       const newNodes = JSON.parse(JSON.stringify(nodes)) as TreeNodeData[];
@@ -862,35 +1500,154 @@ export default function Home() {
 
   // Restore from backup
   const handleLoadBackups = useCallback(() => {
-    fetch("/api/tree/restore")
+    fetch(`${treeUrl}/restore`)
       .then((res) => res.json())
       .then((data) => {
         if (data.backups) {
           setBackups(data.backups);
+          setBackupDiff(null);
+          setBackupView(null);
           setShowBackups(true);
         }
       })
       .catch(() => {});
-  }, []);
+    fetch(`${treeUrl}/journal`)
+      .then((res) => res.json())
+      .then((data) => setJournal(data.journal ?? null))
+      .catch(() => {});
+    fetch(`${treeUrl}/history`)
+      .then((res) => res.json())
+      .then((data) => setCommits(data.enabled ? data.commits : null))
+      .catch(() => {});
+  }, [treeUrl]);
 
-  const handleRestore = useCallback(
+  // Show what the retention policy would delete, then prune on confirmation
+  const handlePruneBackups = useCallback(() => {
+    fetch(`${treeUrl}/retention`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          window.alert(data.error);
+          return;
+        }
+        if (data.remove.length === 0) {
+          window.alert("No backups to prune under the retention policy.");
+          return;
+        }
+        if (!confirm(`Delete ${data.remove.length} backup(s)?\n\n${data.remove.join("\n")}`)) return;
+        return fetch(`${treeUrl}/retention`, { method: "POST" }).then(() => handleLoadBackups());
+      })
+      .catch(() => {});
+  }, [treeUrl, handleLoadBackups]);
+
+  const handleShowBackupDiff = useCallback(
     (backupName: string) => {
-      if (!confirm("Restore from this backup? Current data will be overwritten.")) return;
-      fetch("/api/tree/restore", {
+      if (backupDiff?.name === backupName) {
+        setBackupDiff(null);
+        return;
+      }
+      const query = new URLSearchParams({ from: "current", to: backupName });
+      fetch(`${treeUrl}/diff?${query}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.withoutIds) setBackupDiff({ name: backupName, diff: null });
+          else if (data.nodes) setBackupDiff({ name: backupName, diff: data });
+        })
+        .catch(() => {});
+    },
+    [treeUrl, backupDiff]
+  );
+
+  const handleBrowseBackup = useCallback(
+    (backupName: string) => {
+      if (backupView?.name === backupName) {
+        setBackupView(null);
+        return;
+      }
+      fetch(`${treeUrl}/restore?${new URLSearchParams({ backup: backupName })}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.nodes) {
+            setBackupView({ name: backupName, nodes: data.nodes });
+            setBackupPickId(null);
+          }
+        })
+        .catch(() => {});
+    },
+    [treeUrl, backupView]
+  );
+
+  const handleBrowseAt = useCallback(() => {
+    if (!restoreTime) return;
+    const at = new Date(restoreTime).toISOString();
+    fetch(`${treeUrl}/journal?${new URLSearchParams({ at })}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          window.alert(data.error);
+          return;
+        }
+        const name = `State at ${new Date(data.at).toLocaleString("en-US")}`;
+        setBackupView({ name, nodes: data.nodes });
+        setBackupPickId(null);
+      })
+      .catch(() => {});
+  }, [treeUrl, restoreTime]);
+
+  // Graft the subtree picked in the backup next to or under the selected node
+  const handleGraftFromBackup = useCallback(
+    (position: "after" | "child") => {
+      if (!backupView || backupPickId === null || selectedId === null) return;
+      const picked = copyNode(backupView.nodes, backupPickId);
+      if (!picked) return;
+      const newId = nextId(nodes, idFloorRef.current);
+      update(pasteNode(nodes, selectedId, picked, newId, position));
+      setSelectedId(newId);
+    },
+    [backupView, backupPickId, selectedId, nodes, update, setSelectedId]
+  );
+
+  // Repair the stored file on the server and load the repaired tree
+  const handleRepair = useCallback(() => {
+    fetch(`${treeUrl}/integrity`, {
+      method: "POST",
+      headers: authorHeader(authorRef.current),
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.error) {
+          window.alert(data.error);
+          return;
+        }
+        revisionRef.current = data.revision;
+        syncedNodesRef.current = data.nodes;
+        replaceNodes(data.nodes, data.nextId);
+        setAnomalies([]);
+      })
+      .catch(() => {});
+  }, [treeUrl, replaceNodes]);
+
+  // Restore a backup file, or the journal's state at a point in time
+  const handleRestore = useCallback(
+    (source: { backup: string } | { at: string }) => {
+      if (!confirm("Restore this version? Current data will be saved as the latest backup first.")) return;
+      fetch(`${treeUrl}/restore`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ backup: backupName }),
+        headers: { "Content-Type": "application/json", ...authorHeader(authorRef.current) },
+        body: JSON.stringify(source),
       })
         .then((res) => res.json())
         .then((data) => {
           if (data.nodes) {
-            update(data.nodes);
+            revisionRef.current = data.revision;
+            syncedNodesRef.current = data.nodes;
+            replaceNodes(data.nodes, data.nextId);
             setShowBackups(false);
           }
         })
         .catch(() => {});
     },
-    [update]
+    [treeUrl, replaceNodes]
   );
 
   if (error) {
@@ -905,7 +1662,74 @@ export default function Home() {
     <div className="min-h-screen bg-white text-zinc-800 dark:bg-zinc-900 dark:text-zinc-100">
       <div className="mx-auto max-w-3xl py-4">
         <div className="flex items-center justify-between px-4 pb-3">
-          <h1 className="text-lg font-semibold">Locus</h1>
+          <div className="flex items-center gap-2">
+            <h1 className="text-lg font-semibold">Locus</h1>
+            <select
+              value={doc ?? DEFAULT_DOC}
+              onChange={(e) => {
+                switchDoc(e.target.value);
+                e.target.blur();
+              }}
+              className="rounded border border-zinc-300 bg-transparent px-1 py-0.5 text-xs text-zinc-600 dark:border-zinc-600 dark:text-zinc-300"
+              title="Document"
+            >
+              {docs.map((d) => (
+                <option key={d.name} value={d.name}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleNewDoc}
+              className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+              title="New document"
+            >
+              New
+            </button>
+            {doc !== null && doc !== DEFAULT_DOC && (
+              <>
+                <button
+                  onClick={handleRenameDoc}
+                  className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+                  title="Rename document"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={handleDeleteDoc}
+                  className="text-xs text-zinc-400 hover:text-red-500"
+                  title="Delete document"
+                >
+                  Delete
+                </button>
+              </>
+            )}
+            <a
+              href="/api/archive"
+              className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+              title="Download all documents, backups and settings as one archive file"
+            >
+              Archive
+            </a>
+            <button
+              onClick={() => archiveInputRef.current?.click()}
+              className="text-xs text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300"
+              title="Restore from an archive file"
+            >
+              Restore archive
+            </button>
+            <input
+              ref={archiveInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) setArchiveFile(file);
+              }}
+            />
+          </div>
           <div className="flex items-center gap-3">
             {saveStatus !== "idle" && (
               <span
@@ -988,6 +1812,28 @@ export default function Home() {
           >
             MD Export
           </button>
+          <button
+            className="rounded border border-zinc-300 px-2 py-0.5 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800 disabled:opacity-40"
+            onClick={() => setModal("expand")}
+            disabled={selectedId === null}
+            title="Export selected node with every !{ref:...} replaced by its entity (HTML, text or Markdown)"
+          >
+            Expand
+          </button>
+          <button
+            className="rounded border border-zinc-300 px-2 py-0.5 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+            onClick={() => runGeneration(selectedId, true)}
+            title="Write the !{file:path} nodes under the selected node (or in the whole document) to the output directory"
+          >
+            Generate
+          </button>
+          <button
+            className="rounded border border-zinc-300 px-2 py-0.5 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+            onClick={() => setShowUndoHistory((show) => !show)}
+            title="Undo history and checkpoints"
+          >
+            History
+          </button>
           <button
             className="rounded border border-zinc-300 px-2 py-0.5 hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
             onClick={handleLoadBackups}
@@ -1018,42 +1864,314 @@ export default function Home() {
             />
             Edit on add
           </label>
-          <span className="ml-auto text-zinc-400" title="Total node count">
+          {brokenRefIds.length > 0 && (
+            <button
+              onClick={handleNextBrokenRef}
+              className="ml-auto text-red-500 hover:underline"
+              title="Select the next node that refers to a missing entity"
+            >
+              {brokenRefIds.length} broken {brokenRefIds.length === 1 ? "ref" : "refs"}
+            </button>
+          )}
+          <span
+            className={`${brokenRefIds.length > 0 ? "" : "ml-auto "}text-zinc-400`}
+            title="Total node count"
+          >
             {nodeCount.toLocaleString()} nodes
           </span>
         </div>
 
+        {/* Problems in the stored file */}
+        {anomalies.length > 0 && (
+          <div
+            className={`mx-4 mb-2 rounded border p-2 text-xs ${
+              anomalies.some((a) => a.severity === "error")
+                ? "border-red-300 bg-red-50 text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300"
+                : "border-amber-300 bg-amber-50 text-amber-700 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-300"
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <span>
+                The stored file has {anomalies.length} problem{anomalies.length === 1 ? "" : "s"}.
+                {anomalies.some((a) => a.severity === "error") &&
+                  ` ${anomalies.filter((a) => a.severity === "error").length} line(s) were not loaded and will be lost on the next save unless repaired.`}
+              </span>
+              <button className="ml-auto hover:underline" onClick={() => setShowAnomalies((show) => !show)}>
+                {showAnomalies ? "Hide" : "Details"}
+              </button>
+              <button className="font-semibold hover:underline" onClick={handleRepair}>
+                Repair
+              </button>
+              <button className="hover:underline" onClick={() => setAnomalies([])}>
+                Dismiss
+              </button>
+            </div>
+            {showAnomalies && (
+              <ul className="mt-1 max-h-40 overflow-y-auto">
+                {anomalies.map((a, i) => (
+                  <li key={i}>
+                    Line {a.line}: {a.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Undo history */}
+        {showUndoHistory && (
+          <div className="mx-4 mb-2 rounded border border-zinc-300 bg-zinc-50 p-2 text-xs dark:border-zinc-700 dark:bg-zinc-900">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold">Undo history</span>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1 text-zinc-400" title="Number of steps kept">
+                  Depth
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_UNDO_DEPTH}
+                    value={undoDepth}
+                    onChange={(e) => setUndoDepth(Number(e.target.value))}
+                    onKeyDown={(e) => e.stopPropagation()}
+                    className="w-14 rounded border border-zinc-300 bg-transparent px-1 dark:border-zinc-700"
+                  />
+                </label>
+                <button className="text-zinc-400 hover:text-zinc-600" onClick={handleCheckpoint}>
+                  Checkpoint
+                </button>
+                <button
+                  className="text-zinc-400 hover:text-zinc-600"
+                  onClick={() => setShowUndoHistory(false)}
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+            <ul className="max-h-60 space-y-0.5 overflow-y-auto">
+              {/* Newest first; row i is the state after i steps, row 0 the state before the first */}
+              {Array.from({ length: undoHistory.steps.length + 1 }, (_, i) => undoHistory.steps.length - i).map(
+                (position) => {
+                  const step = position > 0 ? undoHistory.steps[position - 1] : null;
+                  const label = step ? step.label : undoHistory.baseLabel;
+                  const isCurrent = position === undoHistory.position;
+                  return (
+                    <li
+                      key={position}
+                      className={`flex items-center gap-2 ${position > undoHistory.position ? "opacity-50" : ""}`}
+                    >
+                      <button
+                        className={`hover:underline ${isCurrent ? "font-semibold" : "text-blue-500"}`}
+                        onClick={() => jumpInHistory(position)}
+                        disabled={isCurrent}
+                      >
+                        {step ? describeStep(step) : "Start"}
+                      </button>
+                      {label && (
+                        <span className="rounded bg-amber-100 px-1 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                          {label}
+                        </span>
+                      )}
+                      {step && (
+                        <span className="text-zinc-400">{new Date(step.at).toLocaleString("en-US")}</span>
+                      )}
+                      {isCurrent && <span className="text-zinc-400">current</span>}
+                    </li>
+                  );
+                }
+              )}
+            </ul>
+          </div>
+        )}
+
         {/* Backup list */}
         {showBackups && (
           <div className="mx-4 mb-2 rounded border border-zinc-300 bg-zinc-50 p-2 text-xs dark:border-zinc-700 dark:bg-zinc-900">
             <div className="flex items-center justify-between mb-1">
               <span className="font-semibold">Backups</span>
-              <button
-                className="text-zinc-400 hover:text-zinc-600"
-                onClick={() => setShowBackups(false)}
-              >
-                Close
-              </button>
+              <div className="flex gap-2">
+                <button
+                  className="text-zinc-400 hover:text-zinc-600"
+                  onClick={handlePruneBackups}
+                  title="Delete backups outside the retention policy"
+                >
+                  Prune
+                </button>
+                <button
+                  className="text-zinc-400 hover:text-zinc-600"
+                  onClick={() => setShowBackups(false)}
+                >
+                  Close
+                </button>
+              </div>
             </div>
+            {journal && (
+              <div className="mb-2 flex items-center gap-2">
+                <span className="text-zinc-500">Point in time</span>
+                <input
+                  type="datetime-local"
+                  value={restoreTime}
+                  onChange={(e) => setRestoreTime(e.target.value)}
+                  onKeyDown={(e) => e.stopPropagation()}
+                  className="rounded border border-zinc-300 bg-transparent px-1 dark:border-zinc-700"
+                />
+                <button
+                  className="text-zinc-400 hover:underline disabled:opacity-40"
+                  disabled={!restoreTime}
+                  onClick={handleBrowseAt}
+                >
+                  Browse
+                </button>
+                <button
+                  className="text-blue-500 hover:underline disabled:opacity-40"
+                  disabled={!restoreTime}
+                  onClick={() => handleRestore({ at: new Date(restoreTime).toISOString() })}
+                >
+                  Restore
+                </button>
+                <span className="text-zinc-400">
+                  journal: {new Date(journal.from).toLocaleString("en-US")} –{" "}
+                  {new Date(journal.to).toLocaleString("en-US")}
+                </span>
+              </div>
+            )}
             {backups.length === 0 ? (
               <p className="text-zinc-400">No backups available</p>
             ) : (
-              <ul className="space-y-0.5">
+              <ul className="max-h-60 space-y-0.5 overflow-y-auto">
                 {backups.map((b, idx) => (
                   <li key={b.name} className="flex items-center gap-2">
                     <button
                       className="text-blue-500 hover:underline"
-                      onClick={() => handleRestore(b.name)}
+                      onClick={() => handleRestore({ backup: b.name })}
                     >
                       {idx === 0 ? "Latest" : `#${idx + 1}`}
                     </button>
+                    {b.kind !== "rotating" && (
+                      <span className="rounded bg-zinc-200 px-1 text-zinc-500 dark:bg-zinc-700 dark:text-zinc-300">
+                        {b.kind === "weekly" ? "Weekly" : "Pinned"}
+                      </span>
+                    )}
                     <span className="text-zinc-400">
                       {new Date(b.mtime).toLocaleString("en-US")}
                     </span>
+                    <span className="text-zinc-400">
+                      {b.nodes.toLocaleString()} nodes, {(b.size / 1024).toFixed(1)} KB
+                    </span>
+                    <button
+                      className={`hover:underline ${
+                        backupDiff?.name === b.name ? "text-zinc-600 dark:text-zinc-300" : "text-zinc-400"
+                      }`}
+                      onClick={() => handleShowBackupDiff(b.name)}
+                    >
+                      Diff
+                    </button>
+                    <button
+                      className={`hover:underline ${
+                        backupView?.name === b.name ? "text-zinc-600 dark:text-zinc-300" : "text-zinc-400"
+                      }`}
+                      onClick={() => handleBrowseBackup(b.name)}
+                    >
+                      Browse
+                    </button>
                   </li>
                 ))}
               </ul>
             )}
+            {commits && (
+              <div className="mt-2 border-t border-zinc-300 pt-2 dark:border-zinc-700">
+                <div className="mb-1 font-semibold">History (git)</div>
+                {commits.length === 0 ? (
+                  <p className="text-zinc-400">No commits yet</p>
+                ) : (
+                  <ul className="max-h-60 space-y-0.5 overflow-y-auto">
+                    {commits.map((c) => {
+                      const version = `git:${c.hash}`;
+                      return (
+                        <li key={c.hash} className="flex items-center gap-2">
+                          <button
+                            className="text-blue-500 hover:underline"
+                            onClick={() => handleRestore({ backup: version })}
+                          >
+                            {c.hash.slice(0, 7)}
+                          </button>
+                          <span className="text-zinc-400">
+                            {new Date(c.date).toLocaleString("en-US")}
+                          </span>
+                          <span className="truncate text-zinc-500">{c.message}</span>
+                          <button
+                            className={`hover:underline ${
+                              backupDiff?.name === version ? "text-zinc-600 dark:text-zinc-300" : "text-zinc-400"
+                            }`}
+                            onClick={() => handleShowBackupDiff(version)}
+                          >
+                            Diff
+                          </button>
+                          <button
+                            className={`hover:underline ${
+                              backupView?.name === version ? "text-zinc-600 dark:text-zinc-300" : "text-zinc-400"
+                            }`}
+                            onClick={() => handleBrowseBackup(version)}
+                          >
+                            Browse
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            )}
+            {backupDiff && !backupDiff.diff && (
+              <div className="mt-2 border-t border-zinc-300 pt-2 text-amber-700 dark:border-zinc-700 dark:text-amber-300">
+                {backupDiff.name} was saved before node ids were stored, so its nodes can&apos;t be
+                matched with the current ones and no diff is shown. Use Browse to compare it by eye.
+              </div>
+            )}
+            {backupDiff?.diff && (
+              <div className="mt-2 border-t border-zinc-300 pt-2 dark:border-zinc-700">
+                <div className="mb-1 text-zinc-500">
+                  Restoring {backupDiff.name} would change:{" "}
+                  {(Object.entries(backupDiff.diff.summary) as [string, number][])
+                    .filter(([, count]) => count > 0)
+                    .map(([change, count]) => `${count} ${change}`)
+                    .join(", ") || "nothing"}
+                </div>
+                <div className="max-h-80 overflow-y-auto">
+                  <DiffOutline nodes={changedOnly(backupDiff.diff.nodes)} />
+                </div>
+              </div>
+            )}
+            {backupView && (
+              <div className="mt-2 border-t border-zinc-300 pt-2 dark:border-zinc-700">
+                <div className="mb-1 flex items-center gap-2">
+                  <span className="text-zinc-500">{backupView.name} (read-only)</span>
+                  <button
+                    className="rounded border border-zinc-300 px-2 py-0.5 hover:bg-zinc-100 disabled:opacity-40 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                    disabled={backupPickId === null || selectedId === null}
+                    onClick={() => handleGraftFromBackup("after")}
+                    title="Copy the picked subtree after the selected node"
+                  >
+                    Insert after selected
+                  </button>
+                  <button
+                    className="rounded border border-zinc-300 px-2 py-0.5 hover:bg-zinc-100 disabled:opacity-40 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                    disabled={backupPickId === null || selectedId === null}
+                    onClick={() => handleGraftFromBackup("child")}
+                    title="Copy the picked subtree as the last child of the selected node"
+                  >
+                    Insert as child
+                  </button>
+                </div>
+                <div className="max-h-80 overflow-y-auto">
+                  <TreeBrowser
+                    key={backupView.name}
+                    nodes={backupView.nodes}
+                    pickedId={backupPickId}
+                    onPick={setBackupPickId}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -1077,17 +2195,285 @@ export default function Home() {
               onDragStart={setDragId}
               onDrop={handleDrop}
               onDragEnd={handleDragEnd}
+              entityNodes={entities.nodes}
+              duplicateEntityIds={entities.duplicates}
+              onFollowRef={handleFollowRef}
+              historyId={nodeHistory?.id === selectedId ? nodeHistory.id : null}
+              historyPopover={
+                nodeHistory && (
+                  <NodeHistory
+                    versions={nodeHistory.versions}
+                    currentText={findNode(nodes, nodeHistory.id)?.text ?? ""}
+                    author={author}
+                    onAuthorChange={setAuthor}
+                    onRestore={handleRestoreNodeText}
+                    onClose={() => setNodeHistory(null)}
+                  />
+                )
+              }
+              onShowHistory={handleShowNodeHistory}
             />
           ))}
           <div style={{ height: "80vh" }} />
         </div>
       </div>
 
+      {/* Archive restore: replace, merge or cancel */}
+      {archiveFile && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="w-[480px] rounded-lg bg-white p-4 shadow-xl dark:bg-zinc-900">
+            <h2 className="mb-2 text-sm font-semibold">Restore {archiveFile.name}</h2>
+            <p className="mb-3 text-xs text-zinc-600 dark:text-zinc-300">
+              Replace moves all current data to trash/ and restores the archive. Merge only adds
+              files that are missing. Either way you see what will be written before anything is.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                className="rounded border border-zinc-300 px-3 py-1 text-xs hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                onClick={() => setArchiveFile(null)}
+              >
+                Cancel
+              </button>
+              <button
+                className="rounded border border-zinc-300 px-3 py-1 text-xs hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                onClick={() => handleImportArchive(archiveFile, "merge")}
+                title="Only add files that don't exist yet"
+              >
+                Merge
+              </button>
+              <button
+                className="rounded bg-blue-500 px-3 py-1 text-xs text-white hover:bg-blue-600"
+                onClick={() => handleImportArchive(archiveFile, "replace")}
+                title="Move the current data to trash/ and restore the archive"
+              >
+                Replace
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Conflict dialog */}
+      {conflict && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="w-[480px] rounded-lg bg-white p-4 shadow-xl dark:bg-zinc-900">
+            <h2 className="mb-2 text-sm font-semibold">Document changed elsewhere</h2>
+            <p className="mb-3 text-xs text-zinc-600 dark:text-zinc-300">
+              Another tab or client saved this document after you loaded it
+              ({countAllNodes(conflict.nodes).toLocaleString()} nodes on the server,{" "}
+              {nodeCount.toLocaleString()} here). Your changes are not saved yet.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                className="rounded border border-zinc-300 px-3 py-1 text-xs hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                onClick={resolveConflictReload}
+                title="Discard your changes and load the server version"
+              >
+                Reload
+              </button>
+              <button
+                className="rounded border border-zinc-300 px-3 py-1 text-xs hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                onClick={resolveConflictOverwrite}
+                title="Replace the server version with yours"
+              >
+                Overwrite
+              </button>
+              <button
+                className="rounded bg-blue-500 px-3 py-1 text-xs text-white hover:bg-blue-600"
+                onClick={resolveConflictMerge}
+                title="Apply your changes on top of the server version"
+              >
+                Merge
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Modal */}
       {modal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
           <div className="w-[600px] max-h-[80vh] rounded-lg bg-white p-4 shadow-xl dark:bg-zinc-900 overflow-y-auto">
-            {modal === "shortcuts" ? (
+            {modal === "expand" ? (
+              <>
+                <div className="mb-2 flex items-center gap-3 text-xs">
+                  <h2 className="text-sm font-semibold">Expand references</h2>
+                  {(["html", "text", "markdown"] as ExpansionFormat[]).map((format) => (
+                    <label key={format} className="flex items-center gap-1">
+                      <input
+                        type="radio"
+                        checked={expandFormat === format}
+                        onChange={() => setExpandFormat(format)}
+                      />
+                      {format === "html" ? "HTML" : format === "text" ? "Text" : "Markdown"}
+                    </label>
+                  ))}
+                  <label className="ml-auto flex items-center gap-1 text-zinc-500">
+                    Depth
+                    <input
+                      type="number"
+                      min={0}
+                      value={expandDepth}
+                      onChange={(e) => {
+                        const depth = Number(e.target.value);
+                        if (Number.isInteger(depth) && depth >= 0) setExpandDepth(depth);
+                      }}
+                      className="w-12 rounded border border-zinc-300 bg-transparent px-1 dark:border-zinc-600"
+                      title="How many references deep to follow"
+                    />
+                  </label>
+                </div>
+                {expansion && expansion.problems.length > 0 && (
+                  <ul className="mb-2 max-h-24 overflow-y-auto rounded border border-amber-300 bg-amber-50 p-1 text-xs text-amber-800 dark:border-amber-700 dark:bg-amber-900/30 dark:text-amber-200">
+                    {expansion.problems.map((problem: ExpansionProblem, i) => (
+                      <li key={i}>
+                        <button
+                          className="text-left hover:underline"
+                          onClick={() => {
+                            setModal(null);
+                            revealNode(problem.nodeId);
+                          }}
+                          title="Go to the node with this reference"
+                        >
+                          {problem.kind === "cycle"
+                            ? `Cycle: ${problem.path.join(" \u2192 ")}`
+                            : problem.kind === "depth"
+                              ? `Depth limit reached at ${problem.path.join(" \u2192 ")}`
+                              : problem.kind === "index"
+                                ? `No such child: ${problem.name}`
+                                : `Missing entity: ${problem.name}`}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <textarea
+                  className="w-full h-64 rounded border border-zinc-300 bg-zinc-50 p-2 text-xs font-mono outline-none focus:border-blue-400 dark:border-zinc-700 dark:bg-zinc-800"
+                  value={expansion?.output ?? ""}
+                  readOnly
+                />
+                <div className="mt-2 flex justify-end gap-2">
+                  {expandFormat === "html" && (
+                    <button
+                      className="rounded border border-zinc-300 px-3 py-1 text-xs hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                      onClick={handlePreviewExpansion}
+                    >
+                      Preview
+                    </button>
+                  )}
+                  <button
+                    className="rounded bg-blue-500 px-3 py-1 text-xs text-white hover:bg-blue-600"
+                    onClick={() => {
+                      if (expansion) navigator.clipboard.writeText(expansion.output);
+                    }}
+                  >
+                    Copy
+                  </button>
+                  <button
+                    className="rounded border border-zinc-300 px-3 py-1 text-xs hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                    onClick={() => setModal(null)}
+                  >
+                    Close
+                  </button>
+                </div>
+              </>
+            ) : modal === "generate" && generation ? (
+              <>
+                <h2 className="mb-2 text-sm font-semibold">
+                  {generation.dryRun ? "Generate files" : "Generated files"}
+                  {generationScope !== null && (
+                    <span className="ml-2 font-normal text-zinc-500">under node {generationScope}</span>
+                  )}
+                </h2>
+                {generation.files.length === 0 && generation.refused.length === 0 && (
+                  <p className="text-xs text-zinc-500">No !{"{"}file:path{"}"} nodes here.</p>
+                )}
+                {generation.refused.length > 0 && (
+                  <ul className="mb-2 rounded border border-red-300 bg-red-50 p-1 text-xs text-red-700 dark:border-red-800 dark:bg-red-900/30 dark:text-red-300">
+                    {generation.refused.map((file, i) => (
+                      <li key={i}>
+                        <button
+                          className="text-left hover:underline"
+                          onClick={() => {
+                            setModal(null);
+                            revealNode(file.nodeId);
+                          }}
+                        >
+                          {file.path}: {file.error}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <ul className="space-y-1 text-xs">
+                  {generation.files.map((file) => (
+                    <li key={file.path}>
+                      <details>
+                        <summary className="cursor-pointer">
+                          <span
+                            className={`mr-2 inline-block w-16 ${
+                              file.status === "create"
+                                ? "text-green-600"
+                                : file.status === "update"
+                                  ? "text-amber-600"
+                                  : "text-zinc-400"
+                            }`}
+                          >
+                            {generation.dryRun
+                              ? file.status
+                              : file.status === "unchanged"
+                                ? "unchanged"
+                                : "written"}
+                          </span>
+                          <span className="font-mono">{file.path}</span>
+                          {file.problems.length > 0 && (
+                            <span className="ml-2 text-amber-600">
+                              {file.problems.length} unexpanded{" "}
+                              {file.problems.length === 1 ? "reference" : "references"}
+                            </span>
+                          )}
+                        </summary>
+                        {file.diff && (
+                          <pre className="mt-1 max-h-48 overflow-auto rounded bg-zinc-50 p-2 font-mono dark:bg-zinc-800">
+                            {file.diff.split("\n").map((line, i) => (
+                              <div
+                                key={i}
+                                className={
+                                  line.startsWith("+") && !line.startsWith("+++")
+                                    ? "text-green-700 dark:text-green-400"
+                                    : line.startsWith("-") && !line.startsWith("---")
+                                      ? "text-red-700 dark:text-red-400"
+                                      : ""
+                                }
+                              >
+                                {line}
+                              </div>
+                            ))}
+                          </pre>
+                        )}
+                      </details>
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-3 flex justify-end gap-2">
+                  {generation.dryRun && (
+                    <button
+                      className="rounded bg-blue-500 px-3 py-1 text-xs text-white hover:bg-blue-600 disabled:opacity-40"
+                      onClick={() => runGeneration(generationScope, false)}
+                      disabled={pendingWrites === 0}
+                    >
+                      Write {pendingWrites} {pendingWrites === 1 ? "file" : "files"}
+                    </button>
+                  )}
+                  <button
+                    className="rounded border border-zinc-300 px-3 py-1 text-xs hover:bg-zinc-100 dark:border-zinc-700 dark:hover:bg-zinc-800"
+                    onClick={() => setModal(null)}
+                  >
+                    Close
+                  </button>
+                </div>
+              </>
+            ) : modal === "shortcuts" ? (
               <>
                 <div className="flex items-center justify-between mb-3">
                   <h2 className="text-sm font-semibold">Keyboard Shortcuts</h2>
@@ -1130,11 +2516,15 @@ export default function Home() {
                     ["Ctrl+C", "Copy"],
                     ["Ctrl+X", "Cut"],
                     ["Ctrl+V", "Paste"],
+                    ["Ctrl+D", "Duplicate with descendants"],
+                    ["Ctrl+Shift+D", "Duplicate node only"],
                   ]],
                   ["Other", [
                     ["Ctrl+Z", "Undo"],
                     ["Ctrl+Y", "Redo"],
                     ["Ctrl+Shift+L", "Toggle OL"],
+                    ["E", "Name node as entity"],
+                    ["H", "Text history of node"],
                     ["?", "Show shortcuts"],
                   ]],
                 ] as [string, [string, string][]][]).map(([category, shortcuts]) => (